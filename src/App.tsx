@@ -13,6 +13,7 @@ import Chat from "./pages/Chat";
 import Saved from "./pages/Saved";
 import Settings from "./pages/Settings";
 import Documents from "./pages/Documents";
+import DocumentViewer from "./pages/DocumentViewer";
 import StockMarket from "./pages/StockMarket";
 import GoldPrices from "./pages/GoldPrices";
 import LatestNews from "./pages/LatestNews";
@@ -71,6 +72,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/documents/:documentId"
+              element={
+                <ProtectedRoute>
+                  <DocumentViewer />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/stock-market"
               element={
@@ -1,13 +1,10 @@
+import { Link } from 'react-router-dom';
 import { User, Database, Globe, FileText, TrendingUp, Newspaper, Landmark } from 'lucide-react';
 import SaveAnswerButton from './SaveAnswerButton';
 import ExplainabilityDialog from './ExplainabilityDialog';
 import { Badge } from '@/components/ui/badge';
-
-interface Evidence {
-  document?: string;
-  page?: string;
-  text?: string;
-}
+import { getTextDirection } from '@/hooks/useLanguagePreference';
+import { type AnswerMetadata, type Evidence, formatEvidenceLocation, getEvidenceHref, VERIFICATION_LABELS } from '@/lib/evidence';
 
 interface DataSource {
   type: 'rag' | 'stock' | 'gold' | 'news' | 'politics' | 'general';
@@ -19,6 +16,7 @@ interface ChatBubbleProps {
   content: string;
   evidence?: Evidence[];
   confidence?: string;
+  metadata?: AnswerMetadata;
   isLoading?: boolean;
   chatId?: string;
   messageId?: string;
@@ -92,6 +90,7 @@ const ChatBubble = ({
   content, 
   evidence, 
   confidence, 
+  metadata,
   isLoading = false,
   chatId,
   messageId,
@@ -107,7 +106,7 @@ const ChatBubble = ({
           <span className="text-sm text-foreground font-medium">You</span>
         </div>
         <div className="chat-bubble-user rounded-2xl rounded-tr-md px-4 py-3 max-w-[85%]">
-          <p className="text-sm">{content}</p>
+          <p className="text-sm" dir="auto">{content}</p>
         </div>
       </div>
     );
@@ -148,18 +147,41 @@ const ChatBubble = ({
               </div>
             )}
             
-            <div className="text-sm text-gray-700 whitespace-pre-wrap">{content}</div>
+            <div className="text-sm text-gray-700 whitespace-pre-wrap" dir={getTextDirection(metadata?.language ?? 'auto')}>{content}</div>
             
             {evidence && evidence.length > 0 && (
               <div className="border-t border-gray-200 pt-3 mt-3">
                 <p className="text-xs font-semibold text-gray-600 mb-2">📄 Document Evidence:</p>
-                {evidence.map((e, idx) => (
-                  <div key={idx} className="text-xs text-gray-500 mb-1">
-                    {e.document && <span>• Document: {e.document}</span>}
-                    {e.page && <span> | Page: {e.page}</span>}
-                    {e.text && <p className="ml-2 italic">"{e.text}"</p>}
-                  </div>
-                ))}
+                {evidence.map((e, idx) => {
+                  const location = formatEvidenceLocation(e);
+                  const href = getEvidenceHref(e);
+                  return (
+                    <div key={e.sourceId ? `${e.sourceId}-${idx}` : idx} className="text-xs text-gray-500 mb-1">
+                      {e.sourceId && <span className="font-medium">[{e.sourceId}] </span>}
+                      {e.document && (
+                        href ? (
+                          <Link to={href} className="text-primary hover:underline">• Document: {e.document}</Link>
+                        ) : (
+                          <span>• Document: {e.document}</span>
+                        )
+                      )}
+                      {location && <span> | {location}</span>}
+                      {e.sourceUrl && (
+                        <span>
+                          {' | '}
+                          <a href={e.sourceUrl} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                            Original page ↗
+                          </a>
+                        </span>
+                      )}
+                      {e.verification && e.verification !== 'verified' && (
+                        <span className="text-red-600"> | ⚠ {VERIFICATION_LABELS[e.verification]}</span>
+                      )}
+                      {e.text && <p className="ml-2 italic" dir="auto">"{e.text}"</p>}
+                      {e.gloss && <p className="ml-2" dir="auto">↳ {e.gloss}</p>}
+                    </div>
+                  );
+                })}
               </div>
             )}
             
@@ -176,6 +198,7 @@ const ChatBubble = ({
                   content={content}
                   evidence={evidence}
                   confidence={confidence}
+                  metadata={metadata}
                   dataSources={dataSources}
                 />
                 {previousUserMessage && (
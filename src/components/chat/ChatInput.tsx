@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Paperclip, Mic, Send, MicOff, Loader2 } from 'lucide-react';
 import { useVoiceRecording } from '@/hooks/useVoiceRecording';
+import { getSpeechLocale, getTextDirection, type Language } from '@/hooks/useLanguagePreference';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
 
@@ -9,13 +10,15 @@ interface ChatInputProps {
   onFileUpload?: () => void;
   disabled?: boolean;
   placeholder?: string;
+  language?: Language;
 }
 
-const ChatInput = ({ onSend, onFileUpload, disabled = false, placeholder = "Ask anything...." }: ChatInputProps) => {
+const ChatInput = ({ onSend, onFileUpload, disabled = false, placeholder = "Ask anything....", language = 'auto' }: ChatInputProps) => {
   const [message, setMessage] = useState('');
   const { toast } = useToast();
 
   const { isRecording, isProcessing, toggleRecording } = useVoiceRecording({
+    lang: getSpeechLocale(language),
     onTranscript: (text) => {
       setMessage(prev => prev ? `${prev} ${text}` : text);
       toast({
@@ -64,6 +67,7 @@ const ChatInput = ({ onSend, onFileUpload, disabled = false, placeholder = "Ask
         onChange={(e) => setMessage(e.target.value)}
         onKeyDown={handleKeyDown}
         placeholder={isRecording ? "Listening..." : placeholder}
+        dir={getTextDirection(language)}
         disabled={disabled || isRecording}
         className="flex-1 bg-transparent outline-none text-gray-700 placeholder:text-gray-500"
       />
@@ -0,0 +1,70 @@
+import { ShieldCheck, Zap } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useChatMode, CHAT_MODE_OPTIONS, ChatMode } from '@/hooks/useChatMode';
+import { useToast } from '@/hooks/use-toast';
+
+interface ChatModeToggleProps {
+  chatId?: string;
+}
+
+const ChatModeToggle = ({ chatId }: ChatModeToggleProps) => {
+  const { toast } = useToast();
+  const { mode, loading, setMode } = useChatMode(chatId);
+
+  const handleSelect = async (next: ChatMode) => {
+    if (next === mode) return;
+    try {
+      await setMode(next);
+    } catch (error) {
+      console.error('Error updating chat mode:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not change the mode for this chat.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="p-2 rounded-full hover:bg-white/10 transition-colors flex items-center gap-1"
+          title="Answer mode"
+          disabled={loading}
+        >
+          {mode === 'hybrid' ? (
+            <Zap className="w-5 h-5 text-foreground" />
+          ) : (
+            <ShieldCheck className="w-5 h-5 text-foreground" />
+          )}
+          <span className="text-xs text-muted-foreground">
+            {CHAT_MODE_OPTIONS.find(o => o.value === mode)?.label}
+          </span>
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        {CHAT_MODE_OPTIONS.map((opt) => (
+          <DropdownMenuItem
+            key={opt.value}
+            onClick={() => handleSelect(opt.value)}
+            className={mode === opt.value ? 'bg-accent/10' : ''}
+          >
+            <div className="flex flex-col">
+              <span>{opt.label}</span>
+              <span className="text-xs text-muted-foreground">{opt.description}</span>
+            </div>
+            {mode === opt.value && <span className="ml-auto text-primary">✓</span>}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ChatModeToggle;
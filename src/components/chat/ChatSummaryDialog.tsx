@@ -0,0 +1,131 @@
+import { useEffect, useState } from 'react';
+import { Loader2, ScrollText } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface ChatSummaryDialogProps {
+  chatId?: string;
+}
+
+// The rolling summary hybrid-chat sends in place of older turns
+const ChatSummaryDialog = ({ chatId }: ChatSummaryDialogProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [summary, setSummary] = useState('');
+  const [messageCount, setMessageCount] = useState(0);
+  const [updatedAt, setUpdatedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSummary = async () => {
+      if (!open || !chatId) return;
+
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('chats')
+        .select('summary, summary_message_count, summary_updated_at')
+        .eq('id', chatId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching chat summary:', error);
+      }
+      setSummary(data?.summary || '');
+      setMessageCount(data?.summary_message_count ?? 0);
+      setUpdatedAt(data?.summary_updated_at ?? null);
+      setLoading(false);
+    };
+
+    fetchSummary();
+  }, [open, chatId]);
+
+  const handleSave = async () => {
+    if (!chatId) return;
+
+    setSaving(true);
+    const trimmed = summary.trim();
+    // Clearing the summary makes the next reply rebuild it from the full history
+    const { error } = await supabase
+      .from('chats')
+      .update(trimmed
+        ? { summary: trimmed, summary_updated_at: new Date().toISOString() }
+        : { summary: null, summary_message_count: 0, summary_updated_at: null })
+      .eq('id', chatId);
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving chat summary:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not save the chat summary.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: trimmed ? 'Summary saved' : 'Summary cleared',
+      description: trimmed
+        ? 'Future answers will use your edited summary.'
+        : 'It will be rebuilt as the conversation continues.',
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          className="p-2 rounded-full hover:bg-white/10 transition-colors"
+          title="Conversation summary"
+        >
+          <ScrollText className="w-5 h-5 text-foreground" />
+        </button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Conversation Summary</DialogTitle>
+          <DialogDescription>
+            {messageCount > 0
+              ? `Replaces the first ${messageCount} messages when answering, so long chats stay within the model's context.`
+              : 'Once this chat gets long, older messages are condensed into a summary here.'}
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <Textarea
+              value={summary}
+              onChange={(e) => setSummary(e.target.value)}
+              placeholder="No summary yet."
+              className="min-h-[200px] text-sm"
+            />
+            {updatedAt && (
+              <p className="text-xs text-muted-foreground">
+                Last updated {new Date(updatedAt).toLocaleString()}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ChatSummaryDialog;
@@ -0,0 +1,89 @@
+import { Library } from 'lucide-react';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Checkbox } from '@/components/ui/checkbox';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useChatDocuments } from '@/hooks/useChatDocuments';
+import { useToast } from '@/hooks/use-toast';
+
+interface DocumentScopePickerProps {
+  chatId?: string;
+}
+
+const DocumentScopePicker = ({ chatId }: DocumentScopePickerProps) => {
+  const { toast } = useToast();
+  const { documents, selectedIds, loading, toggleDocument, clearSelection } = useChatDocuments(chatId);
+  const isScoped = selectedIds.length > 0;
+
+  const handleChange = async (change: () => Promise<void>) => {
+    try {
+      await change();
+    } catch (error) {
+      console.error('Error updating chat documents:', error);
+      toast({
+        title: 'Error',
+        description: 'Could not update the documents for this chat.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className="p-2 rounded-full hover:bg-white/10 transition-colors flex items-center gap-1"
+          title="Documents used in this chat"
+        >
+          <Library className="w-5 h-5 text-foreground" />
+          <span className="text-xs text-muted-foreground">
+            {isScoped ? selectedIds.length : 'All'}
+          </span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 p-0">
+        <div className="px-4 py-3 border-b border-border/50">
+          <p className="text-sm font-medium text-foreground">Documents in this chat</p>
+          <p className="text-xs text-muted-foreground">
+            {isScoped
+              ? `Answers use only the ${selectedIds.length} selected document${selectedIds.length === 1 ? '' : 's'}.`
+              : 'Answers can use all of your documents.'}
+          </p>
+        </div>
+        {loading ? (
+          <p className="px-4 py-3 text-xs text-muted-foreground">Loading...</p>
+        ) : documents.length === 0 ? (
+          <p className="px-4 py-3 text-xs text-muted-foreground">No documents uploaded yet.</p>
+        ) : (
+          <ScrollArea className="max-h-64">
+            <div className="py-2">
+              {documents.map((doc) => (
+                <label
+                  key={doc.id}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-muted/50 cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selectedIds.includes(doc.id)}
+                    onCheckedChange={() => handleChange(() => toggleDocument(doc.id))}
+                  />
+                  <span className="text-sm text-foreground truncate">{doc.name}</span>
+                </label>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+        {isScoped && (
+          <div className="px-4 py-2 border-t border-border/50">
+            <button
+              onClick={() => handleChange(clearSelection)}
+              className="text-xs text-primary hover:underline"
+            >
+              Use all documents
+            </button>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DocumentScopePicker;
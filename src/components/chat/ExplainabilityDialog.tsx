@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { HelpCircle, FileText, Database, Globe, TrendingUp, Newspaper, Landmark, Lightbulb, ChevronDown, ChevronUp } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { HelpCircle, FileText, Database, Globe, TrendingUp, Newspaper, Landmark, Lightbulb, ChevronDown, ChevronUp, ExternalLink, Search, Gauge, Zap, Calculator } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -9,13 +10,20 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
+import {
+  type AnswerMetadata,
+  type BudgetSection,
+  type Evidence,
+  BUDGET_SECTION_LABELS,
+  countFailedVerifications,
+  formatEvidenceLocation,
+  formatRetrievalScores,
+  getEvidenceHref,
+  VERIFICATION_COLORS,
+  VERIFICATION_LABELS,
+} from '@/lib/evidence';
 import { ScrollArea } from '@/components/ui/scroll-area';
-
-interface Evidence {
-  document?: string;
-  page?: string;
-  text?: string;
-}
+import { getLanguage } from '@shared/languages';
 
 interface DataSource {
   type: 'rag' | 'stock' | 'gold' | 'news' | 'politics' | 'general';
@@ -26,6 +34,7 @@ interface ExplainabilityDialogProps {
   content: string;
   evidence?: Evidence[];
   confidence?: string;
+  metadata?: AnswerMetadata;
   dataSources: DataSource[];
 }
 
@@ -80,8 +89,9 @@ const getSourceDescription = (type: DataSource['type']) => {
   }
 };
 
-const ExplainabilityDialog = ({ content, evidence, confidence, dataSources }: ExplainabilityDialogProps) => {
+const ExplainabilityDialog = ({ content, evidence, confidence, metadata, dataSources }: ExplainabilityDialogProps) => {
   const [expandedEvidence, setExpandedEvidence] = useState<number | null>(null);
+  const failedVerifications = countFailedVerifications(evidence);
 
   const getConfidenceExplanation = (conf?: string) => {
     switch (conf?.toLowerCase()) {
@@ -131,6 +141,84 @@ const ExplainabilityDialog = ({ content, evidence, confidence, dataSources }: Ex
         
         <ScrollArea className="max-h-[60vh] pr-4">
           <div className="space-y-5">
+            {/* Rewritten Query Section */}
+            {(metadata?.rewrittenQuery || (metadata?.queryTranslations?.length ?? 0) > 0) && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+                  <Search className="w-4 h-4" />
+                  Search Query
+                </h4>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border/50 space-y-1">
+                  {metadata?.rewrittenQuery && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Your follow-up was rewritten into a standalone question before searching:
+                      </p>
+                      <p className="text-sm text-foreground">"{metadata.rewrittenQuery}"</p>
+                    </>
+                  )}
+                  {metadata?.queryTranslations && metadata.queryTranslations.length > 0 && (
+                    <>
+                      <p className="text-xs text-muted-foreground">
+                        Also searched in the languages of your documents:
+                      </p>
+                      {metadata.queryTranslations.map((translation) => (
+                        <p key={translation.language} className="text-sm text-foreground" dir="auto">
+                          <span className="text-xs text-muted-foreground">{getLanguage(translation.language).label}: </span>
+                          "{translation.text}"
+                        </p>
+                      ))}
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Live Data Tools Section */}
+            {metadata?.toolCalls && metadata.toolCalls.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+                  <Zap className="w-4 h-4" />
+                  Live Data Tools
+                </h4>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border/50 space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    In hybrid mode the assistant chose to call:
+                  </p>
+                  {metadata.toolCalls.map((call, idx) => (
+                    <p key={idx} className="text-xs font-mono text-foreground break-all">
+                      {call.name}({Object.keys(call.arguments).length > 0 ? JSON.stringify(call.arguments) : ''})
+                    </p>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Table Calculations Section */}
+            {metadata?.tableResults && metadata.tableResults.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+                  <Calculator className="w-4 h-4" />
+                  Table Calculations
+                </h4>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border/50 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    Computed exactly from the tables in your documents:
+                  </p>
+                  {metadata.tableResults.map((table, idx) => (
+                    <div key={idx} className="text-xs">
+                      <p className="text-foreground">
+                        {table.calculation} = <span className="font-semibold">{table.result}</span>
+                      </p>
+                      <p className="text-muted-foreground font-mono break-all">
+                        {table.document} · {table.range}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Data Sources Section */}
             <div>
               <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
@@ -178,11 +266,16 @@ const ExplainabilityDialog = ({ content, evidence, confidence, dataSources }: Ex
                           <Badge variant="outline" className="text-xs">
                             {e.document || 'Document'}
                           </Badge>
-                          {e.page && (
+                          {formatEvidenceLocation(e) && (
                             <span className="text-xs text-muted-foreground">
-                              Page/Section: {e.page}
+                              {formatEvidenceLocation(e)}
                             </span>
                           )}
+                          {e.verification && (
+                            <Badge variant="outline" className={`text-xs ${VERIFICATION_COLORS[e.verification]}`}>
+                              {VERIFICATION_LABELS[e.verification]}
+                            </Badge>
+                          )}
                         </div>
                         {expandedEvidence === idx ? (
                           <ChevronUp className="w-4 h-4 text-muted-foreground" />
@@ -190,11 +283,44 @@ const ExplainabilityDialog = ({ content, evidence, confidence, dataSources }: Ex
                           <ChevronDown className="w-4 h-4 text-muted-foreground" />
                         )}
                       </button>
-                      {expandedEvidence === idx && e.text && (
+                      {expandedEvidence === idx && (e.text || e.retrieval || getEvidenceHref(e) || e.sourceUrl) && (
                         <div className="p-3 bg-background border-t border-border/50">
-                          <p className="text-sm text-muted-foreground italic">
-                            "{e.text}"
-                          </p>
+                          {e.text && (
+                            <p className="text-sm text-muted-foreground italic" dir="auto">
+                              "{e.text}"
+                            </p>
+                          )}
+                          {e.gloss && (
+                            <p className="text-sm text-foreground mt-1" dir="auto">
+                              <span className="text-xs text-muted-foreground">Translation: </span>
+                              {e.gloss}
+                            </p>
+                          )}
+                          {e.retrieval && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              Relevance: {formatRetrievalScores(e.retrieval)}
+                            </p>
+                          )}
+                          {getEvidenceHref(e) && (
+                            <Link
+                              to={getEvidenceHref(e)!}
+                              className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-2"
+                            >
+                              <ExternalLink className="w-3 h-3" />
+                              Open in document
+                            </Link>
+                          )}
+                          {e.sourceUrl && (
+                            <a
+                              href={e.sourceUrl}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="inline-flex items-center gap-1 text-xs text-primary hover:underline mt-2 ml-3"
+                            >
+                              <Globe className="w-3 h-3" />
+                              Open original page
+                            </a>
+                          )}
                         </div>
                       )}
                     </div>
@@ -218,9 +344,46 @@ const ExplainabilityDialog = ({ content, evidence, confidence, dataSources }: Ex
                 <p className="text-xs opacity-80">
                   {getConfidenceExplanation(confidence)}
                 </p>
+                {failedVerifications > 0 && (
+                  <p className="text-xs opacity-80 mt-1">
+                    {failedVerifications} of {evidence?.length} quoted passages could not be found in the cited
+                    documents, so confidence was lowered automatically.
+                  </p>
+                )}
               </div>
             </div>
 
+            {/* Token Budget Section */}
+            {metadata?.budget && (
+              <div>
+                <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
+                  <Gauge className="w-4 h-4" />
+                  Context Budget
+                </h4>
+                <div className="p-3 rounded-lg bg-muted/50 border border-border/50 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {metadata.budget.fixedTokens.toLocaleString()} of {metadata.budget.promptTokens.toLocaleString()} tokens
+                    went to instructions; the rest was shared below.
+                  </p>
+                  {(Object.keys(BUDGET_SECTION_LABELS) as BudgetSection[]).map((section) => {
+                    const usage = metadata.budget!.sections[section];
+                    if (!usage || usage.requested === 0) return null;
+                    return (
+                      <div key={section} className="flex items-center justify-between text-xs">
+                        <span className="text-foreground">{BUDGET_SECTION_LABELS[section]}</span>
+                        <span className="text-muted-foreground">
+                          {usage.used.toLocaleString()} / {usage.allocated.toLocaleString()} tokens
+                          {usage.dropped > 0 && (
+                            <span className="text-yellow-700"> · {usage.dropped} left out or shortened</span>
+                          )}
+                        </span>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
             {/* How It Works Section */}
             <div>
               <h4 className="text-sm font-semibold text-foreground mb-3 flex items-center gap-2">
@@ -1,11 +1,22 @@
-import { useState, useRef } from 'react';
-import { Upload, FileText, Image, Loader2, CheckCircle, AlertCircle, Video, Music } from 'lucide-react';
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { Upload, FileText, Image, Loader2, CheckCircle, AlertCircle, Video, Music, FileSpreadsheet, Presentation, Link2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { useIngestionJobs } from '@/hooks/useIngestionJobs';
+import {
+  formatFileSize,
+  ingestFile,
+  ingestUrl,
+  INGESTION_STAGE_PROGRESS,
+  type IngestionStage,
+  validateFile,
+} from '@/lib/ingestion';
+import { ACCEPTED_EXTENSIONS, resolveFileType, SUPPORTED_FORMATS_LABEL } from '@shared/file-types';
 
 interface FileUploadDialogProps {
   open: boolean;
@@ -13,75 +24,37 @@ interface FileUploadDialogProps {
   onUploadComplete?: () => void;
 }
 
-type UploadStatus = 'idle' | 'uploading' | 'transcribing' | 'success' | 'error';
-
-const ALLOWED_TYPES = [
-  'application/pdf',
-  'text/plain',
-  'image/png',
-  'image/jpeg',
-  'image/jpg',
-  'image/webp',
-  // Video formats
-  'video/mp4',
-  'video/quicktime', // .mov
-  'video/webm',
-  // Audio formats
-  'audio/mpeg', // .mp3
-  'audio/wav',
-  'audio/x-wav',
-  'audio/mp4', // .m4a
-  'audio/x-m4a',
-];
-
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB for video/audio
-
-const MEDIA_TYPES = [
-  'video/mp4',
-  'video/quicktime',
-  'video/webm',
-  'audio/mpeg',
-  'audio/wav',
-  'audio/x-wav',
-  'audio/mp4',
-  'audio/x-m4a',
-];
+type UploadStatus = 'idle' | 'uploading' | 'processing' | 'success' | 'error';
+
+// Upload a file from the device, or have fetch-url download a web page
+type UploadSource = 'file' | 'url';
 
 const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDialogProps) => {
   const { user } = useAuth();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
+  const [source, setSource] = useState<UploadSource>('file');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [pageUrl, setPageUrl] = useState('');
   const [uploadStatus, setUploadStatus] = useState<UploadStatus>('idle');
   const [uploadProgress, setUploadProgress] = useState(0);
   const [errorMessage, setErrorMessage] = useState('');
+  const [processingDocId, setProcessingDocId] = useState<string | null>(null);
+  const { jobsByDocument } = useIngestionJobs();
+  const selectedType = selectedFile ? resolveFileType(selectedFile.name, selectedFile.type) : null;
+  const isMedia = selectedType?.category === 'video' || selectedType?.category === 'audio';
 
-  const resetState = () => {
+  const handleClose = useCallback(() => {
+    setSource('file');
     setSelectedFile(null);
+    setPageUrl('');
     setUploadStatus('idle');
     setUploadProgress(0);
     setErrorMessage('');
-  };
-
-  const handleClose = () => {
-    resetState();
+    setProcessingDocId(null);
     onOpenChange(false);
-  };
-
-  const validateFile = (file: File): string | null => {
-    if (!ALLOWED_TYPES.includes(file.type)) {
-      return `Unsupported file type. Please upload PDF, TXT, PNG, JPG, WEBP, MP4, MOV, WEBM, MP3, WAV, or M4A files.`;
-    }
-    // Higher limit for media files
-    const isMedia = MEDIA_TYPES.includes(file.type);
-    const sizeLimit = isMedia ? MAX_FILE_SIZE : 10 * 1024 * 1024;
-    const sizeLimitLabel = isMedia ? '50MB' : '10MB';
-    if (file.size > sizeLimit) {
-      return `File too large. Maximum size is ${sizeLimitLabel}. Your file is ${(file.size / (1024 * 1024)).toFixed(1)}MB.`;
-    }
-    return null;
-  };
+  }, [onOpenChange]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -116,122 +89,85 @@ const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDi
     setUploadStatus('idle');
   };
 
+  // Follow the background job for the uploaded file while the dialog is open
+  const processingJob = processingDocId ? jobsByDocument[processingDocId] : undefined;
+
+  useEffect(() => {
+    if (!processingJob || uploadStatus !== 'processing') return;
+
+    if (processingJob.status === 'succeeded') {
+      setUploadProgress(100);
+      setUploadStatus('success');
+      toast({
+        title: `${source === 'url' ? 'Page' : 'File'} added to knowledge base`,
+        description: 'You can now ask questions based on this document.',
+      });
+    } else if (processingJob.status === 'failed') {
+      setUploadStatus('error');
+      setErrorMessage(`Processing failed: ${processingJob.error || 'Unknown error'}. You can retry from the Documents page.`);
+    } else if (processingJob.status === 'running') {
+      setUploadProgress(80);
+    }
+  }, [processingJob, uploadStatus, source, toast]);
+
+  // Auto-close after success
+  useEffect(() => {
+    if (uploadStatus !== 'success') return;
+
+    const timer = setTimeout(() => {
+      handleClose();
+      onUploadComplete?.();
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [uploadStatus, handleClose, onUploadComplete]);
+
+  const handleStage = (stage: IngestionStage) => {
+    setUploadProgress(INGESTION_STAGE_PROGRESS[stage]);
+    if (stage === 'processing') setUploadStatus('processing');
+  };
+
+  // Queues extraction/transcription/indexing; it keeps running if the dialog is closed
   const handleUpload = async () => {
     if (!selectedFile || !user) return;
 
     setUploadStatus('uploading');
     setUploadProgress(10);
-
-    const isMedia = MEDIA_TYPES.includes(selectedFile.type);
+    setErrorMessage('');
 
     try {
-      // Upload to storage
-      const filePath = `${user.id}/${Date.now()}-${selectedFile.name}`;
-      setUploadProgress(30);
-
-      const { error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(filePath, selectedFile);
-
-      if (uploadError) throw uploadError;
-      setUploadProgress(50);
-
-      // Extract text content based on file type
-      let content = '';
-      if (selectedFile.type === 'text/plain') {
-        content = await selectedFile.text();
-      } else if (selectedFile.type === 'application/pdf') {
-        content = `[PDF Document: ${selectedFile.name}]`;
-      } else if (selectedFile.type.startsWith('image/')) {
-        content = `[Image: ${selectedFile.name}]`;
-      } else if (isMedia) {
-        // For media files, we'll trigger transcription after saving
-        content = `[Processing: ${selectedFile.name}]`;
-      }
-
-      setUploadProgress(60);
-
-      // Save to database
-      const { error: dbError } = await supabase
-        .from('documents')
-        .insert({
-          user_id: user.id,
-          name: selectedFile.name,
-          file_path: filePath,
-          file_type: selectedFile.type,
-          file_size: selectedFile.size,
-          content: content || null,
-        });
-
-      if (dbError) throw dbError;
-
-      // If it's a media file, trigger transcription
-      if (isMedia) {
-        setUploadStatus('transcribing');
-        setUploadProgress(70);
-
-        const transcribeResponse = await fetch(
-          `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/transcribe-media`,
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-            },
-            body: JSON.stringify({
-              filePath,
-              fileType: selectedFile.type,
-              fileName: selectedFile.name,
-              userId: user.id,
-            }),
-          }
-        );
-
-        const transcribeResult = await transcribeResponse.json();
-        
-        if (!transcribeResponse.ok || !transcribeResult.success) {
-          console.error('Transcription failed:', transcribeResult);
-          // Update the document with error status but don't fail the upload
-          await supabase
-            .from('documents')
-            .update({ content: `[Transcription failed for: ${selectedFile.name}]` })
-            .eq('file_path', filePath)
-            .eq('user_id', user.id);
-          
-          toast({
-            title: 'Media uploaded with warning',
-            description: 'File uploaded but transcription failed. You may have limited ability to query this file.',
-            variant: 'destructive',
-          });
-        } else {
-          toast({
-            title: 'Media transcribed successfully',
-            description: 'You can now ask questions based on this audio/video content.',
-          });
-        }
-      } else {
-        toast({
-          title: 'File added to knowledge base',
-          description: 'You can now ask questions based on this document.',
-        });
-      }
+      const document = await ingestFile(selectedFile, user.id, handleStage);
+      setProcessingDocId(document.id);
+    } catch (error) {
+      console.error('Upload error:', error);
+      const message = error instanceof Error ? error.message : 'Upload failed. Please try again.';
+      setUploadStatus('error');
+      setErrorMessage(message);
+      toast({
+        title: 'Upload failed',
+        description: message,
+        variant: 'destructive',
+      });
+    }
+  };
 
-      setUploadProgress(100);
-      setUploadStatus('success');
+  const handleAddUrl = async () => {
+    if (!pageUrl.trim() || !user) return;
 
-      // Auto-close after success
-      setTimeout(() => {
-        handleClose();
-        onUploadComplete?.();
-      }, 2000);
+    setUploadStatus('uploading');
+    setUploadProgress(10);
+    setErrorMessage('');
 
+    try {
+      const document = await ingestUrl(pageUrl, handleStage);
+      setProcessingDocId(document.id);
     } catch (error) {
-      console.error('Upload error:', error);
+      console.error('Add from URL error:', error);
+      const message = error instanceof Error ? error.message : 'The page could not be added.';
       setUploadStatus('error');
-      setErrorMessage('Upload failed. Please try again.');
+      setErrorMessage(message);
       toast({
-        title: 'Upload failed',
-        description: 'Failed to upload document. Please try again.',
+        title: 'Could not add page',
+        description: message,
         variant: 'destructive',
       });
     }
@@ -239,17 +175,25 @@ const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDi
 
   const getFileIcon = () => {
     if (!selectedFile) return <Upload className="w-8 h-8 text-muted-foreground" />;
-    if (selectedFile.type.startsWith('image/')) return <Image className="w-8 h-8 text-primary" />;
-    if (selectedFile.type.startsWith('video/')) return <Video className="w-8 h-8 text-primary" />;
-    if (selectedFile.type.startsWith('audio/')) return <Music className="w-8 h-8 text-primary" />;
-    return <FileText className="w-8 h-8 text-primary" />;
+    switch (selectedType?.category) {
+      case 'image': return <Image className="w-8 h-8 text-primary" />;
+      case 'video': return <Video className="w-8 h-8 text-primary" />;
+      case 'audio': return <Music className="w-8 h-8 text-primary" />;
+      case 'spreadsheet': return <FileSpreadsheet className="w-8 h-8 text-primary" />;
+      case 'presentation': return <Presentation className="w-8 h-8 text-primary" />;
+      default: return <FileText className="w-8 h-8 text-primary" />;
+    }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
-  };
+  const processingLabel = source === 'url'
+    ? 'Reading page...'
+    : !selectedType || selectedType.plainText
+    ? 'Indexing document...'
+    : isMedia
+      ? 'Transcribing audio...'
+      : 'Extracting text...';
+
+  const isBusy = uploadStatus === 'uploading' || uploadStatus === 'processing';
 
   return (
     <Dialog open={open} onOpenChange={handleClose}>
@@ -264,54 +208,100 @@ const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDi
               <div className="w-16 h-16 rounded-full bg-green-100 flex items-center justify-center mb-4">
                 <CheckCircle className="w-8 h-8 text-green-600" />
               </div>
-              <h3 className="text-lg font-medium text-foreground">File added to knowledge base</h3>
+              <h3 className="text-lg font-medium text-foreground">
+                {source === 'url' ? 'Page' : 'File'} added to knowledge base
+              </h3>
               <p className="text-sm text-muted-foreground mt-1">
                 You can now ask questions based on this document.
               </p>
             </div>
           ) : (
             <>
-              {/* Drop zone */}
-              <div
-                onDragOver={(e) => e.preventDefault()}
-                onDrop={handleDrop}
-                onClick={() => fileInputRef.current?.click()}
-                className={`
-                  border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-colors
-                  ${uploadStatus === 'error' ? 'border-destructive bg-destructive/5' : 'border-border hover:border-primary/50 hover:bg-muted/50'}
-                `}
+              <Tabs
+                value={source}
+                onValueChange={(value) => {
+                  if (isBusy) return;
+                  setSource(value as UploadSource);
+                  setUploadStatus('idle');
+                  setErrorMessage('');
+                }}
               >
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept=".pdf,.txt,.png,.jpg,.jpeg,.webp,.mp4,.mov,.webm,.mp3,.wav,.m4a"
-                  onChange={handleFileSelect}
-                  className="hidden"
-                />
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="file" disabled={isBusy}>
+                    <Upload className="w-4 h-4 mr-2" />
+                    Upload file
+                  </TabsTrigger>
+                  <TabsTrigger value="url" disabled={isBusy}>
+                    <Link2 className="w-4 h-4 mr-2" />
+                    Add from URL
+                  </TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="file" className="mt-4">
+                  {/* Drop zone */}
+                  <div
+                    onDragOver={(e) => e.preventDefault()}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                    className={`
+                      border-2 border-dashed rounded-xl p-8 text-center cursor-pointer transition-colors
+                      ${uploadStatus === 'error' ? 'border-destructive bg-destructive/5' : 'border-border hover:border-primary/50 hover:bg-muted/50'}
+                    `}
+                  >
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept={ACCEPTED_EXTENSIONS}
+                      onChange={handleFileSelect}
+                      className="hidden"
+                    />
                 
-                <div className="flex flex-col items-center gap-3">
-                  {getFileIcon()}
+                    <div className="flex flex-col items-center gap-3">
+                      {getFileIcon()}
                   
-                  {selectedFile ? (
-                    <div>
-                      <p className="font-medium text-foreground">{selectedFile.name}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {formatFileSize(selectedFile.size)}
-                      </p>
-                    </div>
-                  ) : (
-                    <div>
-                      <p className="font-medium text-foreground">Drop a file or click to browse</p>
-                      <p className="text-sm text-muted-foreground">
-                        Documents, images, videos & audio
-                      </p>
-                      <p className="text-xs text-muted-foreground mt-1">
-                        PDF, TXT, PNG, JPG • MP4, MOV, WEBM • MP3, WAV, M4A
-                      </p>
+                      {selectedFile ? (
+                        <div>
+                          <p className="font-medium text-foreground">{selectedFile.name}</p>
+                          <p className="text-sm text-muted-foreground">
+                            {formatFileSize(selectedFile.size)}
+                          </p>
+                        </div>
+                      ) : (
+                        <div>
+                          <p className="font-medium text-foreground">Drop a file or click to browse</p>
+                          <p className="text-sm text-muted-foreground">
+                            Documents, spreadsheets, slides, images, videos & audio
+                          </p>
+                          <p className="text-xs text-muted-foreground mt-1">
+                            {SUPPORTED_FORMATS_LABEL}
+                          </p>
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
-              </div>
+                  </div>
+                </TabsContent>
+
+                <TabsContent value="url" className="mt-4 space-y-2">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleAddUrl();
+                    }}
+                  >
+                    <Input
+                      type="url"
+                      inputMode="url"
+                      placeholder="https://example.com/annual-report"
+                      value={pageUrl}
+                      onChange={(e) => setPageUrl(e.target.value)}
+                      disabled={isBusy}
+                    />
+                  </form>
+                  <p className="text-xs text-muted-foreground">
+                    A web page, or a link to a {SUPPORTED_FORMATS_LABEL} file. A snapshot is saved and citations link back to the original.
+                  </p>
+                </TabsContent>
+              </Tabs>
 
               {/* Error message */}
               {uploadStatus === 'error' && errorMessage && (
@@ -322,18 +312,18 @@ const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDi
               )}
 
               {/* Progress bar */}
-              {(uploadStatus === 'uploading' || uploadStatus === 'transcribing') && (
+              {isBusy && (
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">
-                      {uploadStatus === 'transcribing' ? 'Transcribing audio...' : 'Uploading...'}
+                      {uploadStatus === 'processing' ? processingLabel : source === 'url' ? 'Fetching page...' : 'Uploading...'}
                     </span>
                     <span className="text-muted-foreground">{uploadProgress}%</span>
                   </div>
                   <Progress value={uploadProgress} className="h-2" />
-                  {uploadStatus === 'transcribing' && (
+                  {uploadStatus === 'processing' && (
                     <p className="text-xs text-muted-foreground text-center">
-                      This may take a moment for longer files
+                      This may take a moment for longer files. You can close this dialog; processing continues in the background.
                     </p>
                   )}
                 </div>
@@ -345,19 +335,24 @@ const FileUploadDialog = ({ open, onOpenChange, onUploadComplete }: FileUploadDi
                   variant="outline"
                   onClick={handleClose}
                   className="flex-1"
-                  disabled={uploadStatus === 'uploading' || uploadStatus === 'transcribing'}
+                  disabled={uploadStatus === 'uploading'}
                 >
-                  Cancel
+                  {uploadStatus === 'processing' ? 'Close' : 'Cancel'}
                 </Button>
                 <Button
-                  onClick={handleUpload}
+                  onClick={source === 'url' ? handleAddUrl : handleUpload}
                   className="flex-1"
-                  disabled={!selectedFile || uploadStatus === 'uploading' || uploadStatus === 'transcribing'}
+                  disabled={(source === 'url' ? !pageUrl.trim() : !selectedFile) || isBusy}
                 >
-                  {uploadStatus === 'uploading' || uploadStatus === 'transcribing' ? (
+                  {isBusy ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      {uploadStatus === 'transcribing' ? 'Transcribing...' : 'Uploading...'}
+                      {uploadStatus === 'processing' ? 'Processing...' : source === 'url' ? 'Fetching...' : 'Uploading...'}
+                    </>
+                  ) : source === 'url' ? (
+                    <>
+                      <Link2 className="w-4 h-4 mr-2" />
+                      Add page
                     </>
                   ) : (
                     <>
@@ -0,0 +1,57 @@
+import { Fragment, useEffect, useRef } from 'react';
+import { TIMESTAMP_PATTERN } from '@/lib/document-text';
+
+interface HighlightedTextProps {
+  text: string;
+  highlight?: [number, number] | null;
+  onSeek?: (seconds: number) => void;
+}
+
+// Renders [MM:SS] marks as seek buttons when a media player is attached
+const renderWithTimestamps = (text: string, onSeek?: (seconds: number) => void) => {
+  if (!onSeek) return text;
+
+  const parts: React.ReactNode[] = [];
+  let last = 0;
+  for (const match of text.matchAll(TIMESTAMP_PATTERN)) {
+    const seconds = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+    parts.push(text.slice(last, match.index));
+    parts.push(
+      <button
+        key={match.index}
+        onClick={() => onSeek(seconds)}
+        className="text-primary font-medium hover:underline"
+      >
+        {match[0]}
+      </button>
+    );
+    last = match.index! + match[0].length;
+  }
+  parts.push(text.slice(last));
+  return parts.map((part, i) => <Fragment key={i}>{part}</Fragment>);
+};
+
+const HighlightedText = ({ text, highlight, onSeek }: HighlightedTextProps) => {
+  const markRef = useRef<HTMLElement>(null);
+
+  useEffect(() => {
+    markRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight, text]);
+
+  if (!highlight) {
+    return <div className="whitespace-pre-wrap">{renderWithTimestamps(text, onSeek)}</div>;
+  }
+
+  const [start, end] = highlight;
+  return (
+    <div className="whitespace-pre-wrap">
+      {renderWithTimestamps(text.slice(0, start), onSeek)}
+      <mark ref={markRef} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+        {text.slice(start, end)}
+      </mark>
+      {renderWithTimestamps(text.slice(end), onSeek)}
+    </div>
+  );
+};
+
+export default HighlightedText;
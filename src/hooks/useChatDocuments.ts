@@ -0,0 +1,76 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface ScopeDocument {
+  id: string;
+  name: string;
+  file_type: string;
+}
+
+// Documents a chat is pinned to. An empty selection means the chat may use
+// every document, which is also how hybrid-chat treats a chat with no rows.
+export function useChatDocuments(chatId?: string) {
+  const { user } = useAuth();
+  const [documents, setDocuments] = useState<ScopeDocument[]>([]);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user || !chatId) return;
+
+    const fetchScope = async () => {
+      const [{ data: docs }, { data: scoped }] = await Promise.all([
+        supabase
+          .from('documents')
+          .select('id, name, file_type')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('chat_documents')
+          .select('document_id')
+          .eq('chat_id', chatId),
+      ]);
+
+      setDocuments(docs || []);
+      setSelectedIds((scoped || []).map(row => row.document_id));
+      setLoading(false);
+    };
+
+    fetchScope();
+  }, [user, chatId]);
+
+  const toggleDocument = useCallback(async (documentId: string) => {
+    if (!user || !chatId) return;
+
+    if (selectedIds.includes(documentId)) {
+      const { error } = await supabase
+        .from('chat_documents')
+        .delete()
+        .eq('chat_id', chatId)
+        .eq('document_id', documentId);
+      if (error) throw error;
+      setSelectedIds(prev => prev.filter(id => id !== documentId));
+    } else {
+      const { error } = await supabase
+        .from('chat_documents')
+        .insert({ chat_id: chatId, document_id: documentId, user_id: user.id });
+      if (error) throw error;
+      setSelectedIds(prev => [...prev, documentId]);
+    }
+  }, [user, chatId, selectedIds]);
+
+  // Back to searching every document
+  const clearSelection = useCallback(async () => {
+    if (!chatId) return;
+
+    const { error } = await supabase
+      .from('chat_documents')
+      .delete()
+      .eq('chat_id', chatId);
+    if (error) throw error;
+    setSelectedIds([]);
+  }, [chatId]);
+
+  return { documents, selectedIds, loading, toggleDocument, clearSelection };
+}
@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+// Strict chats answer from documents only; hybrid chats may also call the
+// live-data tools (stocks, gold, news, politics)
+export type ChatMode = 'strict' | 'hybrid';
+
+export const CHAT_MODE_OPTIONS: { value: ChatMode; label: string; description: string }[] = [
+  { value: 'strict', label: 'Strict RAG', description: 'Answers only from your documents' },
+  { value: 'hybrid', label: 'Hybrid', description: 'Documents plus live market, gold and news data' },
+];
+
+export function useChatMode(chatId?: string) {
+  const [mode, setModeState] = useState<ChatMode>('strict');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!chatId) return;
+
+    const fetchMode = async () => {
+      const { data } = await supabase
+        .from('chats')
+        .select('mode')
+        .eq('id', chatId)
+        .maybeSingle();
+
+      setModeState(data?.mode === 'hybrid' ? 'hybrid' : 'strict');
+      setLoading(false);
+    };
+
+    fetchMode();
+  }, [chatId]);
+
+  const setMode = useCallback(async (next: ChatMode) => {
+    if (!chatId) return;
+
+    const { error } = await supabase
+      .from('chats')
+      .update({ mode: next })
+      .eq('id', chatId);
+    if (error) throw error;
+    setModeState(next);
+  }, [chatId]);
+
+  return { mode, loading, setMode };
+}
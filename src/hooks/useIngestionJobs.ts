@@ -0,0 +1,92 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { Database } from '@/integrations/supabase/types';
+import type { IngestionKind } from '@shared/file-types';
+
+export type IngestionJob = Database['public']['Tables']['ingestion_jobs']['Row'];
+export type IngestionJobKind = IngestionKind;
+export type IngestionJobStatus = Database['public']['Enums']['ingestion_job_status'];
+
+// Matches claim_ingestion_job: a job running this long has lost its worker
+const STALLED_AFTER_MS = 15 * 60 * 1000;
+
+// Failed jobs, and running jobs whose worker stopped, can be retried
+export const canRetryJob = (job: IngestionJob) =>
+  job.status === 'failed' ||
+  (job.status === 'running' &&
+    job.started_at !== null &&
+    Date.now() - new Date(job.started_at).getTime() > STALLED_AFTER_MS);
+
+// Kick the worker again after a retry without waiting; job status arrives over
+// realtime. New jobs are started by ingest-document and fetch-url (src/lib/ingestion.ts).
+const runWorker = (jobId: string) => {
+  supabase.functions
+    .invoke('ingestion-worker', { body: { jobId } })
+    .then(({ error }) => {
+      if (error) console.error('Ingestion worker failed:', error);
+    });
+};
+
+export function useIngestionJobs() {
+  const { user } = useAuth();
+  const [jobsByDocument, setJobsByDocument] = useState<Record<string, IngestionJob>>({});
+
+  const upsertJob = useCallback((job: IngestionJob) => {
+    setJobsByDocument(prev => {
+      const current = prev[job.document_id];
+      // Keep only the most recent job per document
+      if (current && current.id !== job.id && current.created_at > job.created_at) {
+        return prev;
+      }
+      return { ...prev, [job.document_id]: job };
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: true })
+      .then(({ data }) => {
+        data?.forEach(upsertJob);
+      });
+
+    const channel = supabase
+      .channel(`ingestion-jobs-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'ingestion_jobs', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          if (payload.eventType === 'DELETE') {
+            const removed = payload.old as Partial<IngestionJob>;
+            setJobsByDocument(prev => {
+              if (!removed.document_id || prev[removed.document_id]?.id !== removed.id) return prev;
+              const next = { ...prev };
+              delete next[removed.document_id];
+              return next;
+            });
+          } else {
+            upsertJob(payload.new as IngestionJob);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, upsertJob]);
+
+  const retryJob = useCallback(async (jobId: string) => {
+    const { data, error } = await supabase.rpc('retry_ingestion_job', { job_id: jobId });
+    if (error) throw error;
+    if (data) upsertJob(data as IngestionJob);
+    runWorker(jobId);
+  }, [upsertJob]);
+
+  return { jobsByDocument, retryJob };
+}
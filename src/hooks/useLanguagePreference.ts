@@ -1,22 +1,32 @@
 import { useState, useEffect } from 'react';
+import { LANGUAGES, type LanguageCode } from '@shared/languages';
 
-export type Language = 'auto' | 'english' | 'hindi' | 'hinglish' | 'urdu';
+export type Language = 'auto' | LanguageCode;
 
 export const LANGUAGE_OPTIONS: { value: Language; label: string; nativeLabel: string }[] = [
   { value: 'auto', label: 'Auto-detect', nativeLabel: '🌐 Auto' },
-  { value: 'english', label: 'English', nativeLabel: 'English' },
-  { value: 'hindi', label: 'Hindi', nativeLabel: 'हिंदी' },
-  { value: 'hinglish', label: 'Hinglish', nativeLabel: 'Hinglish' },
-  { value: 'urdu', label: 'Urdu', nativeLabel: 'اردو' },
+  ...LANGUAGES.map(({ code, label, nativeLabel }) => ({ value: code, label, nativeLabel })),
 ];
 
+// Voice input for 'auto' listens for Indian English
+const AUTO_SPEECH_LOCALE = 'en-IN';
+
+export function getSpeechLocale(language: Language): string {
+  return LANGUAGES.find(l => l.code === language)?.speechLocale ?? AUTO_SPEECH_LOCALE;
+}
+
+// 'auto' lets the browser pick the direction from the text itself
+export function getTextDirection(language: Language): 'ltr' | 'rtl' | 'auto' {
+  return LANGUAGES.find(l => l.code === language)?.direction ?? 'auto';
+}
+
 const STORAGE_KEY = 'fs-rag-language-preference';
 
 export function useLanguagePreference() {
   const [language, setLanguageState] = useState<Language>(() => {
     if (typeof window !== 'undefined') {
       const stored = localStorage.getItem(STORAGE_KEY);
-      if (stored && ['auto', 'english', 'hindi', 'hinglish', 'urdu'].includes(stored)) {
+      if (stored && LANGUAGE_OPTIONS.some(opt => opt.value === stored)) {
         return stored as Language;
       }
     }
@@ -29,11 +29,13 @@ declare global {
 }
 
 interface UseVoiceRecordingOptions {
+  // BCP 47 locale for the recognizer, e.g. 'hi-IN'
+  lang?: string;
   onTranscript?: (text: string) => void;
   onError?: (error: string) => void;
 }
 
-export const useVoiceRecording = ({ onTranscript, onError }: UseVoiceRecordingOptions = {}) => {
+export const useVoiceRecording = ({ lang = 'en-US', onTranscript, onError }: UseVoiceRecordingOptions = {}) => {
   const [isRecording, setIsRecording] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const recognitionRef = useRef<SpeechRecognitionInstance | null>(null);
@@ -51,7 +53,7 @@ export const useVoiceRecording = ({ onTranscript, onError }: UseVoiceRecordingOp
       const recognition = new SpeechRecognition();
       recognition.continuous = false;
       recognition.interimResults = true;
-      recognition.lang = 'en-US';
+      recognition.lang = lang;
 
       recognition.onstart = () => {
         setIsRecording(true);
@@ -93,7 +95,7 @@ export const useVoiceRecording = ({ onTranscript, onError }: UseVoiceRecordingOp
       console.error('Failed to start recording:', error);
       onError?.('Failed to start voice recording.');
     }
-  }, [onTranscript, onError]);
+  }, [lang, onTranscript, onError]);
 
   const stopRecording = useCallback(() => {
     if (recognitionRef.current) {
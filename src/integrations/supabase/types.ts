@@ -14,11 +14,51 @@ export type Database = {
   }
   public: {
     Tables: {
+      chat_documents: {
+        Row: {
+          chat_id: string
+          created_at: string
+          document_id: string
+          user_id: string
+        }
+        Insert: {
+          chat_id: string
+          created_at?: string
+          document_id: string
+          user_id: string
+        }
+        Update: {
+          chat_id?: string
+          created_at?: string
+          document_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_documents_chat_id_fkey"
+            columns: ["chat_id"]
+            isOneToOne: false
+            referencedRelation: "chats"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "chat_documents_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chats: {
         Row: {
           created_at: string
           id: string
           is_saved: boolean
+          mode: string
+          summary: string | null
+          summary_message_count: number
+          summary_updated_at: string | null
           title: string
           updated_at: string
           user_id: string
@@ -27,6 +67,10 @@ export type Database = {
           created_at?: string
           id?: string
           is_saved?: boolean
+          mode?: string
+          summary?: string | null
+          summary_message_count?: number
+          summary_updated_at?: string | null
           title?: string
           updated_at?: string
           user_id: string
@@ -35,45 +79,226 @@ export type Database = {
           created_at?: string
           id?: string
           is_saved?: boolean
+          mode?: string
+          summary?: string | null
+          summary_message_count?: number
+          summary_updated_at?: string | null
           title?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      document_chunks: {
+        Row: {
+          chunk_index: number
+          content: string
+          created_at: string
+          document_id: string
+          embedding: string | null
+          end_seconds: number | null
+          id: string
+          page_number: number | null
+          search_en: unknown | null
+          search_simple: unknown | null
+          section: string | null
+          start_seconds: number | null
+          user_id: string
+        }
+        Insert: {
+          chunk_index: number
+          content: string
+          created_at?: string
+          document_id: string
+          embedding?: string | null
+          end_seconds?: number | null
+          id?: string
+          page_number?: number | null
+          search_en?: never
+          search_simple?: never
+          section?: string | null
+          start_seconds?: number | null
+          user_id: string
+        }
+        Update: {
+          chunk_index?: number
+          content?: string
+          created_at?: string
+          document_id?: string
+          embedding?: string | null
+          end_seconds?: number | null
+          id?: string
+          page_number?: number | null
+          search_en?: never
+          search_simple?: never
+          section?: string | null
+          start_seconds?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_chunks_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      document_tables: {
+        Row: {
+          columns: Json
+          created_at: string
+          document_id: string
+          id: string
+          name: string
+          page_number: number | null
+          row_count: number
+          rows: Json
+          table_index: number
+          truncated: boolean
+          user_id: string
+        }
+        Insert: {
+          columns: Json
+          created_at?: string
+          document_id: string
+          id?: string
+          name: string
+          page_number?: number | null
+          row_count: number
+          rows: Json
+          table_index: number
+          truncated?: boolean
+          user_id: string
+        }
+        Update: {
+          columns?: Json
+          created_at?: string
+          document_id?: string
+          id?: string
+          name?: string
+          page_number?: number | null
+          row_count?: number
+          rows?: Json
+          table_index?: number
+          truncated?: boolean
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_tables_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       documents: {
         Row: {
           content: string | null
           created_at: string
+          duration_seconds: number | null
+          fetched_at: string | null
           file_path: string
           file_size: number | null
           file_type: string
           id: string
+          language: string | null
           name: string
+          page_count: number | null
+          source_url: string | null
           user_id: string
         }
         Insert: {
           content?: string | null
           created_at?: string
+          duration_seconds?: number | null
+          fetched_at?: string | null
           file_path: string
           file_size?: number | null
           file_type: string
           id?: string
+          language?: string | null
           name: string
+          page_count?: number | null
+          source_url?: string | null
           user_id: string
         }
         Update: {
           content?: string | null
           created_at?: string
+          duration_seconds?: number | null
+          fetched_at?: string | null
           file_path?: string
           file_size?: number | null
           file_type?: string
           id?: string
+          language?: string | null
           name?: string
+          page_count?: number | null
+          source_url?: string | null
           user_id?: string
         }
         Relationships: []
       }
+      ingestion_jobs: {
+        Row: {
+          attempts: number
+          created_at: string
+          document_id: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          next_attempt_at: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["ingestion_job_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          document_id: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind: string
+          max_attempts?: number
+          next_attempt_at?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["ingestion_job_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          document_id?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          kind?: string
+          max_attempts?: number
+          next_attempt_at?: string
+          started_at?: string | null
+          status?: Database["public"]["Enums"]["ingestion_job_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ingestion_jobs_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           chat_id: string
@@ -82,6 +307,7 @@ export type Database = {
           created_at: string
           evidence: Json | null
           id: string
+          metadata: Json | null
           role: string
           user_id: string
         }
@@ -92,6 +318,7 @@ export type Database = {
           created_at?: string
           evidence?: Json | null
           id?: string
+          metadata?: Json | null
           role: string
           user_id: string
         }
@@ -102,6 +329,7 @@ export type Database = {
           created_at?: string
           evidence?: Json | null
           id?: string
+          metadata?: Json | null
           role?: string
           user_id?: string
         }
@@ -183,15 +411,141 @@ export type Database = {
           },
         ]
       }
+      transcript_segments: {
+        Row: {
+          content: string
+          created_at: string
+          document_id: string
+          end_seconds: number
+          id: string
+          is_final: boolean
+          segment_index: number
+          start_seconds: number
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          document_id: string
+          end_seconds: number
+          id?: string
+          is_final?: boolean
+          segment_index: number
+          start_seconds: number
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          document_id?: string
+          end_seconds?: number
+          id?: string
+          is_final?: boolean
+          segment_index?: number
+          start_seconds?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_segments_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_ingestion_job: {
+        Args: { target_job_id?: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          document_id: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          next_attempt_at: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["ingestion_job_status"]
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      match_document_chunks: {
+        Args: {
+          filter_document_ids?: string[]
+          match_count?: number
+          min_similarity?: number
+          query_embedding: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          document_name: string
+          end_seconds: number
+          id: string
+          page_number: number
+          section: string
+          similarity: number
+          start_seconds: number
+        }[]
+      }
+      replace_document_chunks: {
+        Args: { chunks: Json; target_document_id: string }
+        Returns: number
+      }
+      replace_document_tables: {
+        Args: { tables: Json; target_document_id: string }
+        Returns: number
+      }
+      retry_ingestion_job: {
+        Args: { job_id: string }
+        Returns: {
+          attempts: number
+          created_at: string
+          document_id: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          kind: string
+          max_attempts: number
+          next_attempt_at: string
+          started_at: string | null
+          status: Database["public"]["Enums"]["ingestion_job_status"]
+          updated_at: string
+          user_id: string
+        }
+      }
+      search_document_chunks: {
+        Args: {
+          filter_document_ids?: string[]
+          match_count?: number
+          query_text: string
+        }
+        Returns: {
+          chunk_index: number
+          content: string
+          document_id: string
+          document_name: string
+          end_seconds: number
+          id: string
+          page_number: number
+          section: string
+          rank: number
+          start_seconds: number
+        }[]
+      }
     }
     Enums: {
-      [_ in never]: never
+      ingestion_job_status: "queued" | "running" | "succeeded" | "failed"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -318,6 +672,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      ingestion_job_status: ["queued", "running", "succeeded", "failed"],
+    },
   },
 } as const
@@ -0,0 +1,55 @@
+// Helpers for showing stored document text in the viewer. The page and
+// timestamp formats match what the ingestion functions write.
+
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+}
+
+const PAGE_MARKER = /^\[Page (\d+)\]$/gm;
+export const TIMESTAMP_PATTERN = /\[(\d{1,3}):([0-5]\d)\]/g;
+
+export const splitPages = (content: string): DocumentPage[] => {
+  const markers = [...content.matchAll(PAGE_MARKER)];
+  return markers.map((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : content.length;
+    return { pageNumber: parseInt(marker[1], 10), text: content.slice(start, end).trim() };
+  });
+};
+
+// Lower-cased text with whitespace runs collapsed, plus each character's
+// index in the original so matches can be mapped back
+const normalizeWithMap = (text: string) => {
+  let normalized = '';
+  const map: number[] = [];
+  let lastWasSpace = true;
+
+  for (let i = 0; i < text.length; i++) {
+    const isSpace = /\s/.test(text[i]);
+    if (isSpace && lastWasSpace) continue;
+    normalized += isSpace ? ' ' : text[i].toLowerCase();
+    map.push(i);
+    lastWasSpace = isSpace;
+  }
+  return { normalized, map };
+};
+
+// Locates a quote in the text, tolerating whitespace and case differences and
+// falling back to the quote's opening or closing words if the whole quote
+// does not match exactly
+export const findQuoteRange = (text: string, quote: string): [number, number] | null => {
+  const { normalized, map } = normalizeWithMap(text);
+  const needle = normalizeWithMap(quote.trim()).normalized.trim();
+  if (!needle) return null;
+
+  const candidates = [needle, needle.slice(0, 60).trim(), needle.slice(-60).trim()];
+  for (const candidate of candidates) {
+    if (candidate.length < 12 && candidate !== needle) continue;
+    const at = normalized.indexOf(candidate);
+    if (at !== -1) {
+      return [map[at], map[at + candidate.length - 1] + 1];
+    }
+  }
+  return null;
+};
@@ -0,0 +1,51 @@
+import { invokeFunction } from '@/lib/functions';
+import { formatFileSize } from '@/lib/ingestion';
+
+// Removing documents and their files. Deletes go through delete-document, which
+// removes the stored file by documents.file_path along with every row derived
+// from the document; sweep-orphans clears files no document points to.
+
+export interface FreedByDelete {
+  fileRemoved: boolean;
+  storageBytes: number;
+  chunks: number;
+  transcriptSegments: number;
+  tables: number;
+  ingestionJobs: number;
+  chatLinks: number;
+}
+
+export interface OrphanSweep {
+  dryRun: boolean;
+  scanned: number;
+  removed: number;
+  freedBytes: number;
+}
+
+export const deleteDocument = async (documentId: string): Promise<FreedByDelete> => {
+  const data = await invokeFunction<{ freed: FreedByDelete }>(
+    'delete-document',
+    { documentId },
+    'The document could not be deleted.',
+  );
+  return data.freed;
+};
+
+export const sweepOrphanedFiles = (dryRun = false): Promise<OrphanSweep> =>
+  invokeFunction<OrphanSweep>('sweep-orphans', { dryRun }, 'Storage could not be cleaned up.');
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// e.g. "Freed 2.4 MB, 38 passages and 1 table."
+export const describeFreed = (freed: FreedByDelete): string => {
+  const parts = [
+    freed.fileRemoved ? formatFileSize(freed.storageBytes) : null,
+    freed.chunks ? plural(freed.chunks, 'passage') : null,
+    freed.transcriptSegments ? plural(freed.transcriptSegments, 'transcript segment') : null,
+    freed.tables ? plural(freed.tables, 'table') : null,
+  ].filter((part): part is string => part !== null);
+
+  if (parts.length === 0) return 'The document has been removed.';
+  const list = parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+  return `Freed ${list}.`;
+};
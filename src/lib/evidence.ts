@@ -0,0 +1,176 @@
+import type { LanguageCode } from '@shared/languages';
+import { formatTimestamp } from '@shared/media';
+
+// Citations attached to assistant messages. hybrid-chat sends these as an
+// `event: evidence` SSE event; older messages only have document/page/text.
+export type Confidence = 'High' | 'Medium' | 'Low';
+
+// Set by hybrid-chat after fuzzy-matching the quote against the cited text:
+// mismatched quotes exist but in a different source than the one cited
+export type VerificationStatus = 'verified' | 'unverified' | 'mismatched';
+
+// How hybrid-chat found the passage: vector and BM25 ranks fused with RRF,
+// then rescored by the reranker
+export interface RetrievalScores {
+  fusedScore: number;
+  similarity: number | null;
+  bm25: number | null;
+  semanticRank: number | null;
+  lexicalRank: number | null;
+  rerankScore?: number | null;
+  rerankPosition?: number | null;
+  reranker?: string | null;
+}
+
+export interface Evidence {
+  sourceId?: string;
+  chunkId?: string | null;
+  documentId?: string | null;
+  document?: string;
+  page?: string | null;
+  pageNumber?: number | null;
+  startSeconds?: number | null;
+  // Heading, slide or sheet rows, for documents without pages
+  section?: string | null;
+  // Web page the document was fetched from
+  sourceUrl?: string | null;
+  text?: string;
+  // Translation of `text` into the response language, when the source is in another language
+  gloss?: string | null;
+  retrieval?: RetrievalScores | null;
+  // Set when the source is a calculation over one of the document's tables
+  tableId?: string | null;
+  // Set when the source is a live-data tool result rather than a document
+  tool?: string | null;
+  fetchedAt?: string | null;
+  verification?: VerificationStatus;
+  matchScore?: number;
+}
+
+export interface EvidencePayload {
+  evidence: Evidence[];
+  confidence: Confidence | null;
+  reportedConfidence?: Confidence | null;
+}
+
+export type BudgetSection = 'documents' | 'history' | 'liveData';
+
+export interface SectionUsage {
+  requested: number;
+  allocated: number;
+  used: number;
+  // Passages, documents or messages left out or cut short
+  dropped: number;
+}
+
+// How the prompt's token budget was spent on this answer
+export interface BudgetReport {
+  model: string;
+  promptTokens: number;
+  fixedTokens: number;
+  sections: Record<BudgetSection, SectionUsage>;
+}
+
+export interface ToolCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// A sum, average, count or filter hybrid-chat computed over a stored table
+export interface TableCalculation {
+  table: string;
+  document: string;
+  calculation: string;
+  result: string;
+  // Sheet and cells read, e.g. "Sales!B2:B13"
+  range: string;
+}
+
+export interface QueryTranslation {
+  language: LanguageCode;
+  text: string;
+}
+
+// Sent by hybrid-chat as an `event: metadata` event before the answer
+export interface AnswerMetadata {
+  originalQuery?: string;
+  // Standalone form of a follow-up question; null when no rewrite was needed
+  rewrittenQuery?: string | null;
+  budget?: BudgetReport;
+  mode?: 'strict' | 'hybrid';
+  // Live-data tools the router called in hybrid mode
+  toolCalls?: ToolCall[];
+  // Calculations over the documents' tables that were given to the model
+  tableResults?: TableCalculation[];
+  // Language the answer was requested in
+  language?: LanguageCode;
+  // The query translated into the searched documents' languages
+  queryTranslations?: QueryTranslation[];
+}
+
+export const BUDGET_SECTION_LABELS: Record<BudgetSection, string> = {
+  documents: 'Documents',
+  history: 'Conversation',
+  liveData: 'Live data',
+};
+
+export const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  verified: 'Verified',
+  unverified: 'Not found in source',
+  mismatched: 'Cited wrong source',
+};
+
+export const VERIFICATION_COLORS: Record<VerificationStatus, string> = {
+  verified: 'bg-green-100 text-green-700 border-green-200',
+  unverified: 'bg-red-100 text-red-700 border-red-200',
+  mismatched: 'bg-yellow-100 text-yellow-700 border-yellow-200',
+};
+
+// Quotes that were checked and failed; older messages were never checked
+export const countFailedVerifications = (evidence: Evidence[] = []) =>
+  evidence.filter(e => e.verification && e.verification !== 'verified').length;
+
+
+// "Page 3", "at 12:30", "fetched 14:05" for live data, the cells of a table
+// calculation, or the free-text page of older messages
+export const formatEvidenceLocation = (evidence: Evidence): string | null => {
+  if (evidence.tableId && evidence.section) {
+    return evidence.pageNumber != null ? `Page ${evidence.pageNumber}, ${evidence.section}` : evidence.section;
+  }
+  if (evidence.pageNumber != null) return `Page ${evidence.pageNumber}`;
+  if (evidence.fetchedAt) return `fetched ${new Date(evidence.fetchedAt).toLocaleTimeString()}`;
+  if (evidence.startSeconds != null) return `at ${formatTimestamp(evidence.startSeconds)}`;
+  if (evidence.section) return evidence.section;
+  return evidence.page || null;
+};
+
+// Viewer link that opens the cited document at the page/timestamp with the
+// quote highlighted; older evidence has no document id and is not linkable
+export const getEvidenceHref = (evidence: Evidence): string | null => {
+  if (!evidence.documentId) return null;
+
+  const params = new URLSearchParams();
+  if (evidence.pageNumber != null) params.set('page', String(evidence.pageNumber));
+  if (evidence.startSeconds != null) params.set('t', String(Math.floor(evidence.startSeconds)));
+  // A calculation's text is not in the document, so there is nothing to highlight
+  if (evidence.text && !evidence.tableId) params.set('q', evidence.text);
+  if (evidence.chunkId) params.set('chunk', evidence.chunkId);
+
+  const query = params.toString();
+  return `/documents/${evidence.documentId}${query ? `?${query}` : ''}`;
+};
+
+export const formatRetrievalScores = (scores: RetrievalScores): string => {
+  const parts: string[] = [];
+  if (scores.rerankPosition != null && scores.rerankScore != null) {
+    parts.push(`reranked #${scores.rerankPosition} (${Math.round(scores.rerankScore * 100)}%${scores.reranker ? `, ${scores.reranker}` : ''})`);
+  }
+  parts.push(`fused ${scores.fusedScore.toFixed(4)}`);
+  if (scores.semanticRank != null) {
+    parts.push(`semantic #${scores.semanticRank}${scores.similarity != null ? ` (${scores.similarity.toFixed(2)})` : ''}`);
+  }
+  if (scores.lexicalRank != null) {
+    parts.push(`keyword #${scores.lexicalRank}${scores.bm25 != null ? ` (BM25 ${scores.bm25.toFixed(2)})` : ''}`);
+  }
+  return parts.join(' · ');
+};
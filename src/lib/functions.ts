@@ -0,0 +1,19 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Calls an edge function that answers { success, error?, ... } and returns the
+// body, or throws with the reason the function gave
+export const invokeFunction = async <T>(
+  functionName: string,
+  body: Record<string, unknown>,
+  fallbackError: string,
+): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke(functionName, { body });
+
+  if (error || !data?.success) {
+    // Non-2xx responses carry the reason in the body
+    const details = error?.context ? await error.context.json().catch(() => null) : data;
+    throw new Error(details?.error || fallbackError);
+  }
+
+  return data as T;
+};
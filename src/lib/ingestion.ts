@@ -0,0 +1,120 @@
+import { supabase } from '@/integrations/supabase/client';
+import { invokeFunction } from '@/lib/functions';
+import { getMediaDuration } from '@/lib/media';
+import { resolveFileType, SUPPORTED_FORMATS_LABEL } from '@shared/file-types';
+
+// Adding to the knowledge base from any screen: the chat upload dialog and the
+// Documents page both go through here. Files are checked against the file-type
+// registry, stored in the user's folder and handed to ingest-document; web
+// pages go to fetch-url. Either function records the document and queues its
+// processing, which is then followed through useIngestionJobs.
+
+export type IngestionStage = 'uploading' | 'registering' | 'processing';
+
+export const INGESTION_STAGE_LABELS: Record<IngestionStage, string> = {
+  uploading: 'Uploading...',
+  registering: 'Saving document...',
+  processing: 'Processing...',
+};
+
+// Progress shown for each stage; the last part belongs to the ingestion job
+export const INGESTION_STAGE_PROGRESS: Record<IngestionStage, number> = {
+  uploading: 20,
+  registering: 50,
+  processing: 70,
+};
+
+export interface IngestedDocument {
+  id: string;
+  name: string;
+  fileType: string;
+  jobId: string;
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Returns why the file cannot be added, or null; ingest-document checks again
+export const validateFile = (file: File): string | null => {
+  const fileType = resolveFileType(file.name, file.type);
+  if (!fileType) {
+    return `Unsupported file type. Please upload ${SUPPORTED_FORMATS_LABEL} files.`;
+  }
+  // Limits vary by type; media and Office files get more room
+  if (file.size > fileType.maxBytes) {
+    return `File too large. Maximum size for ${fileType.label} files is ${fileType.maxBytes / (1024 * 1024)}MB. Your file is ${(file.size / (1024 * 1024)).toFixed(1)}MB.`;
+  }
+  return null;
+};
+
+type IngestionResponse = {
+  document: Omit<IngestedDocument, 'jobId'>;
+  jobId: string;
+};
+
+const invokeIngestion = async (
+  functionName: 'ingest-document' | 'fetch-url',
+  body: Record<string, unknown>,
+  fallbackError: string,
+): Promise<IngestedDocument> => {
+  const data = await invokeFunction<IngestionResponse>(functionName, body, fallbackError);
+  return { ...data.document, jobId: data.jobId };
+};
+
+export const ingestFile = async (
+  file: File,
+  userId: string,
+  onStage?: (stage: IngestionStage) => void,
+): Promise<IngestedDocument> => {
+  const validationError = validateFile(file);
+  if (validationError) throw new Error(validationError);
+  const fileType = resolveFileType(file.name, file.type);
+
+  onStage?.('uploading');
+  const filePath = `${userId}/${Date.now()}-${file.name}`;
+  const { error: uploadError } = await supabase.storage
+    .from('documents')
+    .upload(filePath, file, { contentType: fileType?.mimeType });
+
+  if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+  onStage?.('registering');
+  try {
+    // Lets the worker plan transcription segments up front
+    const durationSeconds = fileType?.ingestion === 'transcribe' ? await getMediaDuration(file) : null;
+    const document = await invokeIngestion(
+      'ingest-document',
+      { filePath, name: file.name, mimeType: file.type, durationSeconds },
+      'The file could not be added.',
+    );
+    onStage?.('processing');
+    return document;
+  } catch (error) {
+    // The function cleans up what it rejects; this covers it never being
+    // reached. A lost response may still have registered the file, so it is
+    // only removed while no document points to it.
+    const { data: registered } = await supabase
+      .from('documents')
+      .select('id')
+      .eq('file_path', filePath)
+      .limit(1);
+    if (registered?.length === 0) {
+      await supabase.storage.from('documents').remove([filePath]);
+    }
+    throw error;
+  }
+};
+
+// fetch-url stores a snapshot of the page and queues it like an upload
+export const ingestUrl = async (
+  url: string,
+  onStage?: (stage: IngestionStage) => void,
+): Promise<IngestedDocument> => {
+  onStage?.('registering');
+  const document = await invokeIngestion('fetch-url', { url: url.trim() }, 'The page could not be added.');
+  onStage?.('processing');
+  return document;
+};
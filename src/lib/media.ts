@@ -0,0 +1,20 @@
+// Reads the duration of an audio/video file in the browser so long recordings
+// can be segmented server-side without probing every container format there
+export const getMediaDuration = (file: File, timeoutMs = 10000): Promise<number | null> =>
+  new Promise((resolve) => {
+    const element = document.createElement(file.type.startsWith('video/') ? 'video' : 'audio');
+    const url = URL.createObjectURL(file);
+
+    const finish = (duration: number | null) => {
+      clearTimeout(timer);
+      element.removeAttribute('src');
+      URL.revokeObjectURL(url);
+      resolve(duration);
+    };
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    element.preload = 'metadata';
+    element.onloadedmetadata = () => finish(Number.isFinite(element.duration) ? element.duration : null);
+    element.onerror = () => finish(null);
+    element.src = url;
+  });
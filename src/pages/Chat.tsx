@@ -3,11 +3,16 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { ArrowLeft, Globe, Share2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import ChatInput from '@/components/chat/ChatInput';
 import ChatBubble from '@/components/chat/ChatBubble';
 import FileUploadDialog from '@/components/chat/FileUploadDialog';
+import DocumentScopePicker from '@/components/chat/DocumentScopePicker';
+import ChatSummaryDialog from '@/components/chat/ChatSummaryDialog';
+import ChatModeToggle from '@/components/chat/ChatModeToggle';
 import { useToast } from '@/hooks/use-toast';
 import { useLanguagePreference, LANGUAGE_OPTIONS, Language } from '@/hooks/useLanguagePreference';
+import type { AnswerMetadata, Evidence, EvidencePayload } from '@/lib/evidence';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -18,8 +23,9 @@ interface Message {
   id: string;
   role: 'user' | 'assistant';
   content: string;
-  evidence?: Array<{ document?: string; page?: string; text?: string }>;
+  evidence?: Evidence[];
   confidence?: string;
+  metadata?: AnswerMetadata;
 }
 
 const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/hybrid-chat`;
@@ -27,7 +33,7 @@ const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/hybrid-chat`
 const Chat = () => {
   const { chatId } = useParams();
   const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { toast } = useToast();
   
   const [messages, setMessages] = useState<Message[]>([]);
@@ -65,8 +71,9 @@ const Chat = () => {
           id: m.id,
           role: m.role as 'user' | 'assistant',
           content: m.content,
-          evidence: m.evidence as Array<{ document?: string; page?: string; text?: string }> | undefined,
+          evidence: m.evidence as Evidence[] | undefined,
           confidence: m.confidence || undefined,
+          metadata: (m.metadata as AnswerMetadata | null) || undefined,
         })));
       }
     };
@@ -79,7 +86,7 @@ const Chat = () => {
   }, [messages]);
 
   const handleSend = async (content: string) => {
-    if (!user || !chatId) return;
+    if (!user || !session || !chatId) return;
 
     // Add user message
     const userMessage: Message = {
@@ -113,25 +120,16 @@ const Chat = () => {
         setChatTitle(newTitle);
       }
 
-      // Fetch user's documents for context
-      const { data: documents } = await supabase
-        .from('documents')
-        .select('name, content')
-        .eq('user_id', user.id);
-
-      // Call RAG edge function
+      // Call RAG edge function; history and documents are looked up server-side
       const response = await fetch(CHAT_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
+          Authorization: `Bearer ${session.access_token}`,
         },
         body: JSON.stringify({
-          messages: [...messages, userMessage].map(m => ({
-            role: m.role,
-            content: m.content,
-          })),
-          documents: documents || [],
+          chatId,
+          message: content,
           languagePreference: language,
         }),
       });
@@ -160,8 +158,9 @@ const Chat = () => {
       const reader = response.body?.getReader();
       const decoder = new TextDecoder();
       let assistantContent = '';
-      let assistantEvidence: Array<{ document?: string; page?: string; text?: string }> = [];
+      let assistantEvidence: Evidence[] = [];
       let assistantConfidence = '';
+      let assistantMetadata: AnswerMetadata | undefined;
 
       // Add placeholder assistant message
       setMessages(prev => [...prev, {
@@ -172,6 +171,7 @@ const Chat = () => {
 
       if (reader) {
         let textBuffer = '';
+        let eventName = '';
 
         while (true) {
           const { done, value } = await reader.read();
@@ -185,7 +185,15 @@ const Chat = () => {
             textBuffer = textBuffer.slice(newlineIndex + 1);
 
             if (line.endsWith('\r')) line = line.slice(0, -1);
-            if (line.startsWith(':') || line.trim() === '') continue;
+            if (line.trim() === '') {
+              eventName = '';
+              continue;
+            }
+            if (line.startsWith(':')) continue;
+            if (line.startsWith('event: ')) {
+              eventName = line.slice(7).trim();
+              continue;
+            }
             if (!line.startsWith('data: ')) continue;
 
             const jsonStr = line.slice(6).trim();
@@ -193,6 +201,17 @@ const Chat = () => {
 
             try {
               const parsed = JSON.parse(jsonStr);
+              if (eventName === 'metadata') {
+                assistantMetadata = parsed as AnswerMetadata;
+                continue;
+              }
+              if (eventName === 'evidence') {
+                const payload = parsed as EvidencePayload;
+                assistantEvidence = payload.evidence || [];
+                assistantConfidence = payload.confidence || '';
+                continue;
+              }
+
               const content = parsed.choices?.[0]?.delta?.content;
               if (content) {
                 assistantContent += content;
@@ -213,30 +232,6 @@ const Chat = () => {
         }
       }
 
-      // Parse evidence from response
-      const evidenceMatch = assistantContent.match(/Evidence:\n([\s\S]*?)(?=\n\nConfidence:|$)/);
-      const confidenceMatch = assistantContent.match(/Confidence:\s*(High|Medium|Low)/i);
-      
-      if (evidenceMatch) {
-        const evidenceLines = evidenceMatch[1].split('\n').filter(l => l.trim());
-        evidenceLines.forEach(line => {
-          const docMatch = line.match(/Document:\s*(.+)/);
-          const pageMatch = line.match(/Page\/Section:\s*(.+)/);
-          const textMatch = line.match(/Source text:\s*"(.+)"/);
-          if (docMatch || pageMatch || textMatch) {
-            assistantEvidence.push({
-              document: docMatch?.[1],
-              page: pageMatch?.[1],
-              text: textMatch?.[1],
-            });
-          }
-        });
-      }
-      
-      if (confidenceMatch) {
-        assistantConfidence = confidenceMatch[1];
-      }
-
       // Save assistant message to DB
       await supabase
         .from('messages')
@@ -245,8 +240,9 @@ const Chat = () => {
           user_id: user.id,
           role: 'assistant',
           content: assistantContent,
-          evidence: assistantEvidence.length > 0 ? assistantEvidence : null,
+          evidence: assistantEvidence.length > 0 ? (assistantEvidence as unknown as Json) : null,
           confidence: assistantConfidence || null,
+          metadata: (assistantMetadata as Json) ?? null,
         });
 
       // Update final message with evidence
@@ -256,6 +252,7 @@ const Chat = () => {
         if (lastMsg.role === 'assistant') {
           lastMsg.evidence = assistantEvidence.length > 0 ? assistantEvidence : undefined;
           lastMsg.confidence = assistantConfidence || undefined;
+          lastMsg.metadata = assistantMetadata;
         }
         return newMessages;
       });
@@ -286,6 +283,9 @@ const Chat = () => {
           {chatTitle}
         </h1>
         <div className="flex items-center gap-1">
+          <ChatModeToggle chatId={chatId} />
+          <DocumentScopePicker chatId={chatId} />
+          <ChatSummaryDialog chatId={chatId} />
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <button className="p-2 rounded-full hover:bg-white/10 transition-colors flex items-center gap-1">
@@ -354,6 +354,7 @@ const Chat = () => {
                   content={message.content}
                   evidence={message.evidence}
                   confidence={message.confidence}
+                  metadata={message.metadata}
                   isLoading={isLoading && index === messages.length - 1 && message.role === 'assistant' && !message.content}
                   chatId={chatId}
                   messageId={message.id}
@@ -380,6 +381,7 @@ const Chat = () => {
           onFileUpload={() => setShowUploadDialog(true)}
           disabled={isLoading}
           placeholder="Ask anything...."
+          language={language}
         />
       </footer>
 
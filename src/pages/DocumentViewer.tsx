@@ -0,0 +1,251 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, FileText, Globe, Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import HighlightedText from '@/components/documents/HighlightedText';
+import { findQuoteRange, splitPages } from '@/lib/document-text';
+import { formatTimestamp } from '@shared/media';
+
+interface ViewerDocument {
+  id: string;
+  name: string;
+  file_path: string;
+  file_type: string;
+  content: string | null;
+  page_count: number | null;
+  source_url: string | null;
+  fetched_at: string | null;
+}
+
+// Opened from citations as /documents/:documentId?page=3&t=750&q=quote
+const DocumentViewer = () => {
+  const { documentId } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const mediaRef = useRef<HTMLVideoElement & HTMLAudioElement>(null);
+
+  const quote = searchParams.get('q') || '';
+  const chunkId = searchParams.get('chunk');
+  const startSeconds = searchParams.has('t') ? Number(searchParams.get('t')) : null;
+
+  const [doc, setDoc] = useState<ViewerDocument | null>(null);
+  const [fileUrl, setFileUrl] = useState<string | null>(null);
+  const [chunkText, setChunkText] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [currentPage, setCurrentPage] = useState<number | null>(
+    searchParams.has('page') ? Number(searchParams.get('page')) : null
+  );
+
+  useEffect(() => {
+    const fetchDocument = async () => {
+      if (!user || !documentId) return;
+
+      const { data } = await supabase
+        .from('documents')
+        .select('id, name, file_path, file_type, content, page_count, source_url, fetched_at')
+        .eq('id', documentId)
+        .maybeSingle();
+
+      if (data) {
+        setDoc(data);
+        const { data: signed } = await supabase.storage
+          .from('documents')
+          .createSignedUrl(data.file_path, 60 * 60);
+        setFileUrl(signed?.signedUrl ?? null);
+      }
+
+      // The cited passage is used to highlight when the quote itself cannot be found
+      if (chunkId) {
+        const { data: chunk } = await supabase
+          .from('document_chunks')
+          .select('content')
+          .eq('id', chunkId)
+          .maybeSingle();
+        setChunkText(chunk?.content ?? null);
+      }
+      setLoading(false);
+    };
+
+    fetchDocument();
+  }, [user, documentId, chunkId]);
+
+  const pages = useMemo(() => splitPages(doc?.content || ''), [doc]);
+  const isPdf = doc?.file_type === 'application/pdf';
+  const isImage = doc?.file_type.startsWith('image/');
+  const isVideo = doc?.file_type.startsWith('video/');
+  const isAudio = doc?.file_type.startsWith('audio/');
+
+  // Without a page in the link, open the page that contains the quote
+  useEffect(() => {
+    if (currentPage !== null || pages.length === 0) return;
+    const match = pages.find(p => (quote && findQuoteRange(p.text, quote)) || (chunkText && findQuoteRange(p.text, chunkText)));
+    setCurrentPage(match?.pageNumber ?? pages[0].pageNumber);
+  }, [pages, quote, chunkText, currentPage]);
+
+  const visibleText = pages.length > 0
+    ? pages.find(p => p.pageNumber === currentPage)?.text ?? ''
+    : doc?.content || '';
+
+  const highlight = useMemo(
+    () => (quote && findQuoteRange(visibleText, quote)) || (chunkText && findQuoteRange(visibleText, chunkText)) || null,
+    [visibleText, quote, chunkText]
+  );
+
+  const seek = (seconds: number) => {
+    if (!mediaRef.current) return;
+    mediaRef.current.currentTime = seconds;
+    mediaRef.current.play().catch(() => undefined);
+  };
+
+  const pageNumbers = pages.map(p => p.pageNumber);
+  const pageIndex = currentPage !== null ? pageNumbers.indexOf(currentPage) : -1;
+
+  return (
+    <div className="min-h-screen gradient-bg pb-12">
+      {/* Header */}
+      <header className="px-4 py-4 flex items-center gap-4">
+        <button
+          onClick={() => navigate(-1)}
+          className="p-2 rounded-full hover:bg-white/10 transition-colors"
+        >
+          <ArrowLeft className="w-6 h-6 text-foreground" />
+        </button>
+        <div className="min-w-0">
+          <h1 className="text-xl font-semibold text-foreground truncate">{doc?.name || 'Document'}</h1>
+          {doc?.source_url && (
+            <a
+              href={doc.source_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-sm text-primary hover:underline truncate"
+            >
+              <Globe className="w-3 h-3 flex-shrink-0" />
+              <span className="truncate">{doc.source_url}</span>
+              {doc.fetched_at && (
+                <span className="text-muted-foreground flex-shrink-0">
+                  · fetched {new Date(doc.fetched_at).toLocaleString()}
+                </span>
+              )}
+            </a>
+          )}
+        </div>
+      </header>
+
+      <main className="px-6 py-4 space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !doc ? (
+          <div className="text-center py-12">
+            <FileText className="w-16 h-16 mx-auto text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">Document not found</h3>
+            <p className="text-muted-foreground">It may have been deleted.</p>
+          </div>
+        ) : (
+          <>
+            {/* Original file */}
+            {fileUrl && (
+              <div className="glass-card rounded-2xl p-2 overflow-hidden">
+                {isPdf && (
+                  <iframe
+                    key={currentPage ?? 1}
+                    src={`${fileUrl}#page=${currentPage ?? 1}`}
+                    title={doc.name}
+                    className="w-full h-[60vh] rounded-xl bg-white"
+                  />
+                )}
+                {isImage && (
+                  <img src={fileUrl} alt={doc.name} className="w-full max-h-[60vh] object-contain rounded-xl" />
+                )}
+                {(isVideo || isAudio) && (
+                  <div className="p-2">
+                    {isVideo ? (
+                      <video
+                        ref={mediaRef}
+                        src={fileUrl}
+                        controls
+                        className="w-full max-h-[50vh] rounded-xl bg-black"
+                        onLoadedMetadata={() => startSeconds !== null && seek(startSeconds)}
+                      />
+                    ) : (
+                      <audio
+                        ref={mediaRef}
+                        src={fileUrl}
+                        controls
+                        className="w-full"
+                        onLoadedMetadata={() => startSeconds !== null && seek(startSeconds)}
+                      />
+                    )}
+                    {startSeconds !== null && (
+                      <button
+                        onClick={() => seek(startSeconds)}
+                        className="text-xs text-primary mt-2 hover:underline"
+                      >
+                        Jump to cited moment ({formatTimestamp(startSeconds)})
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* Extracted text with the cited passage highlighted */}
+            <div className="glass-card rounded-2xl p-4">
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-sm font-semibold text-gray-700">
+                  {isVideo || isAudio ? 'Transcript' : 'Extracted text'}
+                  {currentPage !== null && pages.length > 0 && ` — Page ${currentPage}`}
+                </h2>
+                {pages.length > 1 && (
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pageIndex <= 0}
+                      onClick={() => setCurrentPage(pageNumbers[pageIndex - 1])}
+                    >
+                      <ChevronLeft className="w-4 h-4" />
+                    </Button>
+                    <span className="text-xs text-gray-500">
+                      {pageIndex + 1} / {pages.length}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={pageIndex >= pages.length - 1}
+                      onClick={() => setCurrentPage(pageNumbers[pageIndex + 1])}
+                    >
+                      <ChevronRight className="w-4 h-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+              {quote && !highlight && (
+                <p className="text-xs text-yellow-700 bg-yellow-50 rounded-lg p-2 mb-3">
+                  The quoted text could not be located exactly on this page: "{quote}"
+                </p>
+              )}
+              {visibleText ? (
+                <div className="text-sm text-gray-700 max-h-[60vh] overflow-y-auto custom-scrollbar">
+                  <HighlightedText
+                    text={visibleText}
+                    highlight={highlight}
+                    onSeek={isVideo || isAudio ? seek : undefined}
+                  />
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No text has been extracted from this document yet.</p>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default DocumentViewer;
@@ -1,11 +1,38 @@
 import { useEffect, useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, Upload, FileText, Trash2, Loader2 } from 'lucide-react';
+import { ArrowLeft, Upload, FileText, Trash2, Loader2, RotateCw, Globe } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import BottomNav from '@/components/ui/bottom-nav';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { canRetryJob, useIngestionJobs, IngestionJobStatus } from '@/hooks/useIngestionJobs';
+import { deleteDocument, describeFreed } from '@/lib/documents';
+import {
+  formatFileSize,
+  ingestFile,
+  INGESTION_STAGE_LABELS,
+  INGESTION_STAGE_PROGRESS,
+  type IngestionStage,
+  validateFile,
+} from '@/lib/ingestion';
+import { ACCEPTED_EXTENSIONS, SUPPORTED_FORMATS_LABEL } from '@shared/file-types';
+
+const JOB_STATUS_LABELS: Record<IngestionJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Processing',
+  succeeded: 'Ready',
+  failed: 'Failed',
+};
+
+const JOB_STATUS_COLORS: Record<IngestionJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700 border-gray-200',
+  running: 'bg-blue-100 text-blue-700 border-blue-200',
+  succeeded: 'bg-green-100 text-green-700 border-green-200',
+  failed: 'bg-red-100 text-red-700 border-red-200',
+};
 
 interface Document {
   id: string;
@@ -13,6 +40,8 @@ interface Document {
   file_type: string;
   file_size: number;
   created_at: string;
+  // Set for documents added from a web page
+  source_url: string | null;
 }
 
 const Documents = () => {
@@ -23,7 +52,10 @@ const Documents = () => {
 
   const [documents, setDocuments] = useState<Document[]>([]);
   const [loading, setLoading] = useState(true);
-  const [uploading, setUploading] = useState(false);
+  // Set while a file is on its way in; afterwards the job badge takes over
+  const [uploadStage, setUploadStage] = useState<IngestionStage | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { jobsByDocument, retryJob } = useIngestionJobs();
 
   useEffect(() => {
     fetchDocuments();
@@ -48,97 +80,73 @@ const Documents = () => {
     const file = e.target.files?.[0];
     if (!file || !user) return;
 
-    // Validate file type
-    const allowedTypes = ['application/pdf', 'image/png', 'image/jpeg', 'image/jpg', 'text/plain'];
-    if (!allowedTypes.includes(file.type)) {
-      toast({
-        title: 'Invalid file type',
-        description: 'Please upload PDF, PNG, JPG, or TXT files.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    // Validate file size (10MB max)
-    if (file.size > 10 * 1024 * 1024) {
+    const validationError = validateFile(file);
+    if (validationError) {
       toast({
-        title: 'File too large',
-        description: 'Maximum file size is 10MB.',
+        title: 'Cannot upload this file',
+        description: validationError,
         variant: 'destructive',
       });
+      if (fileInputRef.current) {
+        fileInputRef.current.value = '';
+      }
       return;
     }
 
-    setUploading(true);
-
     try {
-      const filePath = `${user.id}/${Date.now()}-${file.name}`;
-      const { error: uploadError } = await supabase.storage
-        .from('documents')
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      // Requirement 1 & 2: You must extract text so it can be stored in the 'content' column
-      // For a hackathon prototype, you can use a library like 'pdf-parse' in a background function
-      const { error: dbError } = await supabase
-        .from('documents')
-        .insert({
-          user_id: user.id,
-          name: file.name,
-          file_path: filePath,
-          file_type: file.type,
-          file_size: file.size,
-          // REQUIREMENT: You must extract text so the AI can read it.
-          // For now, mark it as 'processing' so you can track it.
-          content: file.type === 'text/plain' ? await file.text() : "EXTRACTING_CONTENT...",
-        });
-
-      if (dbError) throw dbError;
+      await ingestFile(file, user.id, setUploadStage);
       toast({ title: 'Document uploaded and indexing started' });
       fetchDocuments();
     } catch (error) {
       console.error('Upload error:', error);
       toast({
         title: 'Upload failed',
-        description: 'Failed to upload document. Please try again.',
+        description: error instanceof Error ? error.message : 'Failed to upload document. Please try again.',
         variant: 'destructive',
       });
     } finally {
-      setUploading(false);
+      setUploadStage(null);
       if (fileInputRef.current) {
         fileInputRef.current.value = '';
       }
     }
   };
 
+  // Removes the stored file and everything derived from the document
   const handleDelete = async (doc: Document) => {
-    if (!user) return;
-
-    // Delete from storage
-    await supabase.storage
-      .from('documents')
-      .remove([`${user.id}/${doc.name}`]);
-
-    // Delete from database
-    const { error } = await supabase
-      .from('documents')
-      .delete()
-      .eq('id', doc.id);
+    if (!user || deletingId) return;
 
-    if (!error) {
+    setDeletingId(doc.id);
+    try {
+      const freed = await deleteDocument(doc.id);
       setDocuments(prev => prev.filter(d => d.id !== doc.id));
       toast({
         title: 'Document deleted',
-        description: 'The document has been removed.',
+        description: describeFreed(freed),
+      });
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast({
+        title: 'Delete failed',
+        description: error instanceof Error ? error.message : 'Could not delete the document. Please try again.',
+        variant: 'destructive',
       });
+    } finally {
+      setDeletingId(null);
     }
   };
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes < 1024) return `${bytes} B`;
-    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  const handleRetry = async (jobId: string) => {
+    try {
+      await retryJob(jobId);
+    } catch (error) {
+      console.error('Retry error:', error);
+      toast({
+        title: 'Retry failed',
+        description: 'Could not restart processing. Please try again.',
+        variant: 'destructive',
+      });
+    }
   };
 
   return (
@@ -159,19 +167,19 @@ const Documents = () => {
         <input
           ref={fileInputRef}
           type="file"
-          accept=".pdf,.png,.jpg,.jpeg,.txt"
+          accept={ACCEPTED_EXTENSIONS}
           onChange={handleUpload}
           className="hidden"
         />
         <Button
           onClick={() => fileInputRef.current?.click()}
-          disabled={uploading}
+          disabled={uploadStage !== null}
           className="w-full h-12 rounded-full bg-primary hover:bg-primary/90"
         >
-          {uploading ? (
+          {uploadStage ? (
             <>
               <Loader2 className="w-5 h-5 mr-2 animate-spin" />
-              Uploading...
+              {INGESTION_STAGE_LABELS[uploadStage]}
             </>
           ) : (
             <>
@@ -180,9 +188,13 @@ const Documents = () => {
             </>
           )}
         </Button>
-        <p className="text-xs text-muted-foreground text-center mt-2">
-          Supported: PDF, PNG, JPG, TXT (max 10MB)
-        </p>
+        {uploadStage ? (
+          <Progress value={INGESTION_STAGE_PROGRESS[uploadStage]} className="h-2 mt-3" />
+        ) : (
+          <p className="text-xs text-muted-foreground text-center mt-2">
+            Supported: {SUPPORTED_FORMATS_LABEL}
+          </p>
+        )}
       </div>
 
       {/* Documents list */}
@@ -195,28 +207,80 @@ const Documents = () => {
           </div>
         ) : documents.length > 0 ? (
           <div className="space-y-4">
-            {documents.map((doc) => (
-              <div
-                key={doc.id}
-                className="glass-card rounded-2xl p-4 flex items-center gap-4"
-              >
-                <div className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center">
-                  <FileText className="w-6 h-6 text-primary" />
-                </div>
-                <div className="flex-1 min-w-0">
-                  <h3 className="font-medium text-gray-800 truncate">{doc.name}</h3>
-                  <p className="text-sm text-gray-500">
-                    {formatFileSize(doc.file_size || 0)}
-                  </p>
-                </div>
-                <button
-                  onClick={() => handleDelete(doc)}
-                  className="p-2 rounded-full hover:bg-red-100 transition-colors"
+            {documents.map((doc) => {
+              const job = jobsByDocument[doc.id];
+
+              return (
+                <div
+                  key={doc.id}
+                  className="glass-card rounded-2xl p-4 flex items-center gap-4"
                 >
-                  <Trash2 className="w-5 h-5 text-red-500" />
-                </button>
-              </div>
-            ))}
+                  <div className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center">
+                    {doc.source_url ? (
+                      <Globe className="w-6 h-6 text-primary" />
+                    ) : (
+                      <FileText className="w-6 h-6 text-primary" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <button
+                      onClick={() => navigate(`/documents/${doc.id}`)}
+                      className="block max-w-full text-left font-medium text-gray-800 truncate hover:underline"
+                    >
+                      {doc.name}
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <p className="text-sm text-gray-500">
+                        {formatFileSize(doc.file_size || 0)}
+                      </p>
+                      {doc.source_url && (
+                        <a
+                          href={doc.source_url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-primary truncate hover:underline"
+                        >
+                          {new URL(doc.source_url).hostname}
+                        </a>
+                      )}
+                      {job && (
+                        <Badge
+                          variant="outline"
+                          className={`text-xs px-2 py-0 flex items-center gap-1 ${JOB_STATUS_COLORS[job.status]}`}
+                          title={job.error || undefined}
+                        >
+                          {job.status === 'running' && <Loader2 className="w-3 h-3 animate-spin" />}
+                          {JOB_STATUS_LABELS[job.status]}
+                        </Badge>
+                      )}
+                    </div>
+                    {job?.status === 'failed' && job.error && (
+                      <p className="text-xs text-red-500 truncate">{job.error}</p>
+                    )}
+                  </div>
+                  {job && canRetryJob(job) && (
+                    <button
+                      onClick={() => handleRetry(job.id)}
+                      className="p-2 rounded-full hover:bg-primary/10 transition-colors"
+                      title="Retry processing"
+                    >
+                      <RotateCw className="w-5 h-5 text-primary" />
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleDelete(doc)}
+                    disabled={deletingId !== null}
+                    className="p-2 rounded-full hover:bg-red-100 transition-colors disabled:opacity-50"
+                  >
+                    {deletingId === doc.id ? (
+                      <Loader2 className="w-5 h-5 text-red-500 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-5 h-5 text-red-500" />
+                    )}
+                  </button>
+                </div>
+              );
+            })}
           </div>
         ) : (
           <div className="text-center py-12">
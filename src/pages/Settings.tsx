@@ -1,11 +1,13 @@
 import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { ArrowLeft, User, LogOut, FileText, Trash2, Globe } from 'lucide-react';
+import { ArrowLeft, User, LogOut, FileText, Trash2, Globe, HardDrive, Loader2 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import BottomNav from '@/components/ui/bottom-nav';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
+import { sweepOrphanedFiles } from '@/lib/documents';
+import { formatFileSize } from '@/lib/ingestion';
 import { useLanguagePreference, LANGUAGE_OPTIONS, Language } from '@/hooks/useLanguagePreference';
 import {
   AlertDialog,
@@ -31,6 +33,7 @@ const Settings = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isSweeping, setIsSweeping] = useState(false);
   const { language, setLanguage } = useLanguagePreference();
 
   const handleSignOut = async () => {
@@ -56,6 +59,29 @@ const Settings = () => {
     setIsDeleting(false);
   };
 
+  // Removes uploaded files that no longer belong to any document
+  const handleCleanUpStorage = async () => {
+    setIsSweeping(true);
+    try {
+      const sweep = await sweepOrphanedFiles();
+      toast({
+        title: 'Storage cleaned up',
+        description: sweep.removed > 0
+          ? `Removed ${sweep.removed} leftover ${sweep.removed === 1 ? 'file' : 'files'}, freeing ${formatFileSize(sweep.freedBytes)}.`
+          : 'No leftover files were found.',
+      });
+    } catch (error) {
+      console.error('Storage clean-up error:', error);
+      toast({
+        title: 'Clean-up failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
   return (
     <div className="min-h-screen gradient-bg pb-24">
       {/* Header */}
@@ -124,6 +150,24 @@ const Settings = () => {
             </div>
           </button>
 
+          <button
+            onClick={handleCleanUpStorage}
+            disabled={isSweeping}
+            className="w-full glass-card rounded-2xl p-4 flex items-center gap-4 hover:bg-white/90 transition-colors disabled:opacity-70"
+          >
+            <div className="w-12 h-12 rounded-xl bg-primary/20 flex items-center justify-center">
+              {isSweeping ? (
+                <Loader2 className="w-6 h-6 text-primary animate-spin" />
+              ) : (
+                <HardDrive className="w-6 h-6 text-primary" />
+              )}
+            </div>
+            <div className="flex-1 text-left">
+              <h3 className="font-medium text-gray-800">Clean Up Storage</h3>
+              <p className="text-sm text-gray-500">Remove leftover files from deleted documents</p>
+            </div>
+          </button>
+
           <AlertDialog>
             <AlertDialogTrigger asChild>
               <button className="w-full glass-card rounded-2xl p-4 flex items-center gap-4 hover:bg-white/90 transition-colors">
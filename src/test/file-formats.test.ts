@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import { chunkDocument } from '@shared/chunking';
+import { resolveFileType, XLSX_TYPE } from '@shared/file-types';
+import { decodeEntities, htmlTitle, htmlToText, markdownToText } from '@shared/markup';
+import { columnIndex, columnLetter, csvToSheet, formatSpreadsheet, parseCsv } from '@shared/spreadsheet';
+
+describe('resolveFileType', () => {
+  it('prefers the extension over the reported MIME type', () => {
+    expect(resolveFileType('notes.md', '')?.mimeType).toBe('text/markdown');
+    expect(resolveFileType('export.csv', 'application/vnd.ms-excel')?.mimeType).toBe('text/csv');
+    expect(resolveFileType('Budget.XLSX', 'application/octet-stream')?.mimeType).toBe(XLSX_TYPE);
+  });
+
+  it('falls back to the MIME type and its aliases', () => {
+    expect(resolveFileType('photo', 'image/jpg')?.mimeType).toBe('image/jpeg');
+    expect(resolveFileType('archive.zip', 'application/zip')).toBeNull();
+  });
+});
+
+describe('spreadsheets', () => {
+  it('converts between column letters and indexes', () => {
+    expect(columnLetter(0)).toBe('A');
+    expect(columnLetter(25)).toBe('Z');
+    expect(columnLetter(27)).toBe('AB');
+    expect(columnIndex('AB')).toBe(27);
+    expect(columnIndex(columnLetter(730))).toBe(730);
+  });
+
+  it('parses quoted CSV fields and detects the delimiter', () => {
+    expect(parseCsv('name,note\n"Smith, J","said ""hi""\nthen left"\n')).toEqual([
+      ['name', 'note'],
+      ['Smith, J', 'said "hi"\nthen left'],
+    ]);
+    expect(parseCsv('a;b\r\n1;2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('writes rows with their cell references under a sheet section', () => {
+    const text = formatSpreadsheet([csvToSheet('Region,Q1\nNorth,100\nSouth,\n', 'Sales')]);
+    expect(text).toBe([
+      '[Section: Sales]',
+      'Columns: Region (A), Q1 (B)',
+      'Row 2 | Region (A2): North | Q1 (B2): 100',
+      'Row 3 | Region (A3): South',
+    ].join('\n'));
+  });
+
+  it('labels chunks with the sheet and the rows they cover', () => {
+    const rows = Array.from({ length: 60 }, (_, i) => `Item ${i + 1},${i * 10}`).join('\n');
+    const chunks = chunkDocument(formatSpreadsheet([csvToSheet(`Item,Price\n${rows}`, 'Catalog')]));
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].section).toMatch(/^Catalog, rows 2-\d+$/);
+    expect(chunks[chunks.length - 1].section).toMatch(/^Catalog, rows \d+-61$/);
+  });
+});
+
+describe('markup', () => {
+  it('turns top-level Markdown headings into sections and drops formatting', () => {
+    const text = markdownToText([
+      '---',
+      'title: Notes',
+      '---',
+      'Intro with a [link](https://example.com).',
+      '',
+      '# Revenue',
+      '**Total** grew by _12%_ in `FY24`; see snake_case_name.',
+      '',
+      '| Quarter | Amount |',
+      '| --- | ---: |',
+      '| Q1 | 10 |',
+      '### Details',
+      '* first point',
+    ].join('\n'));
+
+    expect(text).toBe([
+      'Intro with a link.',
+      '',
+      '[Section: Revenue]',
+      'Total grew by 12% in FY24; see snake_case_name.',
+      '',
+      'Quarter | Amount',
+      'Q1 | 10',
+      'Details',
+      '- first point',
+    ].join('\n'));
+    expect(chunkDocument(text).map((chunk) => chunk.section)).toEqual([undefined, 'Revenue']);
+  });
+
+  it('strips scripts and tags from HTML and keeps headings as sections', () => {
+    const text = htmlToText(`
+      <html><head><title>x</title><script>var a = 1;</script></head>
+      <body>
+        <h1>Fees &amp; Charges</h1>
+        <p>Annual fee: &#8377;500</p>
+        <ul><li>No joining fee</li><li>Waived over &pound;1</li></ul>
+        <table><tr><th>Plan</th><th>Rate</th></tr><tr><td>Gold</td><td>2%</td></tr></table>
+      </body></html>
+    `);
+
+    expect(text).toBe([
+      '[Section: Fees & Charges]',
+      'Annual fee: ₹500',
+      '',
+      '- No joining fee',
+      '- Waived over £1',
+      '',
+      'Plan | Rate',
+      'Gold | 2%',
+    ].join('\n'));
+  });
+
+  it('decodes common named entities and leaves malformed ones as written', () => {
+    expect(decodeEntities('&euro;5 &copy; 2026 &mdash; Caf&eacute; &Eacute;t&eacute;')).toBe('€5 © 2026 — Café Été');
+    expect(decodeEntities('&#99999999; &#xD800; &#0; &bogus; &#x1F600;')).toBe('&#99999999; &#xD800; &#0; &bogus; 😀');
+  });
+
+  it('keeps only the main content of a web page and reads its title', () => {
+    const body = 'Repo rates were held at 6.5% for the fourth meeting in a row. '.repeat(4);
+    const html = `
+      <html><head><title>Site | Policy</title><meta property="og:title" content="RBI holds rates &amp; stance"></head>
+      <body>
+        <header><a href="/">Home</a> <a href="/markets">Markets</a></header>
+        <main><h1>Policy update</h1><p>${body}</p><aside>Related: Gold hits record</aside></main>
+        <footer>© 2026</footer>
+      </body></html>
+    `;
+
+    expect(htmlTitle(html)).toBe('RBI holds rates & stance');
+    expect(htmlToText(html)).toBe(`[Section: Policy update]\n${body.trim()}`);
+    expect(htmlTitle('<p>no title</p>')).toBeNull();
+  });
+});
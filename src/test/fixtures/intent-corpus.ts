@@ -0,0 +1,63 @@
+import type { IntentLabel } from '@shared/intent';
+
+export interface LabeledQuery {
+  text: string;
+  intents: IntentLabel[];
+}
+
+// Hand-labeled questions as users type them: English, Hindi (Devanagari),
+// Hinglish (Roman Hindi) and Urdu. An empty list means no live data is needed.
+export const INTENT_CORPUS: LabeledQuery[] = [
+  // English
+  { text: 'What is the sensex at right now?', intents: ['stock'] },
+  { text: 'How are NIFTY and NASDAQ doing today?', intents: ['stock'] },
+  { text: 'Show me the stock price of Apple', intents: ['stock'] },
+  { text: 'Is the Dow Jones up or down?', intents: ['stock'] },
+  { text: "What's today's gold rate for 22K?", intents: ['gold'] },
+  { text: 'Current gold price per ounce', intents: ['gold'] },
+  { text: 'Any breaking news?', intents: ['news'] },
+  { text: 'Give me the latest headlines', intents: ['news'] },
+  { text: 'Who won the election in Maharashtra?', intents: ['politics'] },
+  { text: 'What did the prime minister say in parliament?', intents: ['politics'] },
+  { text: 'Latest political news please', intents: ['politics', 'news'] },
+  { text: 'Gold price and sensex today', intents: ['stock', 'gold'] },
+  // Generic words alone are not enough
+  { text: 'What happened today?', intents: [] },
+  { text: 'Summarize the latest version of the contract', intents: [] },
+  { text: 'Can you share the key points of chapter 3?', intents: [] },
+  { text: 'What is the market size mentioned in section 2?', intents: [] },
+  { text: 'Explain the party responsible for the delay', intents: [] },
+  { text: 'Translate this paragraph into Hindi', intents: [] },
+  // Negation
+  { text: "I don't want news, just the gold rate", intents: ['gold'] },
+  { text: 'No stocks, tell me about elections', intents: ['politics'] },
+  { text: 'Without the gold price, what are the headlines?', intents: ['news'] },
+  // About the user's own documents
+  { text: 'What does my PDF say about the gold price?', intents: [] },
+  { text: 'According to the uploaded document, when is the election?', intents: [] },
+  // Hindi
+  { text: 'आज सेंसेक्स कितना है?', intents: ['stock'] },
+  { text: 'शेयर बाजार का हाल बताओ', intents: ['stock'] },
+  { text: 'सोने का भाव क्या है?', intents: ['gold'] },
+  { text: 'सोने की कीमत बताइए', intents: ['gold'] },
+  { text: 'आज की ताजा खबरें', intents: ['news'] },
+  { text: 'चुनाव के नतीजे क्या रहे?', intents: ['politics'] },
+  { text: 'मुझे सोना है', intents: [] },
+  { text: 'खबर नहीं चाहिए, सोने का भाव बताओ', intents: ['gold'] },
+  { text: 'इस दस्तावेज़ में चुनाव के बारे में क्या लिखा है?', intents: [] },
+  // Hinglish
+  { text: 'aaj sone ka bhav kya hai', intents: ['gold'] },
+  { text: 'nifty kitna gira aaj?', intents: ['stock'] },
+  { text: 'share bazaar kaisa chal raha hai', intents: ['stock'] },
+  { text: 'aaj ki khabar sunao', intents: ['news'] },
+  { text: 'chunav kab hai?', intents: ['politics'] },
+  { text: 'khabar nahi chahiye, sirf nifty batao', intents: ['stock'] },
+  { text: 'mujhe sona hai yaar', intents: [] },
+  { text: 'is file mein gold ke baare mein kya likha hai', intents: [] },
+  // Urdu
+  { text: 'آج سونے کی قیمت کیا ہے؟', intents: ['gold'] },
+  { text: 'تازہ خبریں سنائیں', intents: ['news'] },
+  { text: 'انتخابات کب ہوں گے؟', intents: ['politics'] },
+  { text: 'اسٹاک ایکسچینج کا حال بتائیں', intents: ['stock'] },
+  { text: 'خبر نہیں، سیاست کے بارے میں بتائیں', intents: ['politics'] },
+];
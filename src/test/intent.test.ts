@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { classifyIntent, DEFAULT_INTENT_THRESHOLD } from '@shared/intent';
+import { INTENT_CORPUS } from './fixtures/intent-corpus';
+
+describe('classifyIntent', () => {
+  describe('labeled corpus', () => {
+    it.each(INTENT_CORPUS)('$text -> $intents', ({ text, intents }) => {
+      expect([...classifyIntent(text).intents].sort()).toEqual([...intents].sort());
+    });
+  });
+
+  it('does not treat generic words alone as a news request', () => {
+    const result = classifyIntent('What should I read today?');
+    expect(result.intents).toEqual([]);
+    expect(result.scores.news).toBeGreaterThan(0);
+    expect(result.scores.news).toBeLessThan(DEFAULT_INTENT_THRESHOLD);
+  });
+
+  it('matches the longest lexicon term once', () => {
+    const result = classifyIntent('gold price');
+    expect(result.matched.gold).toEqual(['gold price']);
+  });
+
+  it('records negated terms instead of scoring them', () => {
+    const result = classifyIntent('no news please');
+    expect(result.negated).toContain('news');
+    expect(result.scores.news).toBe(0);
+  });
+
+  it('does not carry negation across clauses', () => {
+    expect(classifyIntent('No, tell me the gold price').intents).toEqual(['gold']);
+  });
+
+  it('damps live-data scores for questions about documents', () => {
+    const result = classifyIntent('What does the document say about the sensex?');
+    expect(result.documentFocused).toBe(true);
+    expect(result.scores.stock).toBeLessThan(DEFAULT_INTENT_THRESHOLD);
+  });
+
+  it('orders intents by score and reports the best as confidence', () => {
+    const result = classifyIntent('sensex and nifty, and any news');
+    expect(result.intents).toEqual(['stock', 'news']);
+    expect(result.confidence).toBe(result.scores.stock);
+  });
+
+  it('honours a custom threshold', () => {
+    expect(classifyIntent('sone ka rate?', { threshold: 0.95 }).intents).toEqual([]);
+    expect(classifyIntent('mujhe sona hai', { threshold: 0.4 }).intents).toEqual(['gold']);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, type DetectedLanguage } from '@shared/language';
+
+const LABELED: { text: string; language: DetectedLanguage }[] = [
+  // English, including words that are also Hinglish
+  { text: 'What is the capital of India, na?', language: 'english' },
+  { text: 'I want to go to the market', language: 'english' },
+  { text: 'Summarize the main points of this report', language: 'english' },
+  { text: 'Is the party on Sunday or Monday?', language: 'english' },
+  // Hinglish
+  { text: 'aaj sone ka bhav kya hai', language: 'hinglish' },
+  { text: 'mujhe iske baare mein batao yaar', language: 'hinglish' },
+  { text: 'nifty kitna gira aaj?', language: 'hinglish' },
+  { text: 'is file mein kya likha hai', language: 'hinglish' },
+  // Hindi
+  { text: 'आज सेंसेक्स कितना है?', language: 'hindi' },
+  { text: 'मुझे इस दस्तावेज़ के बारे में बताइए', language: 'hindi' },
+  // Marathi
+  { text: 'आज सोन्याचा भाव काय आहे?', language: 'marathi' },
+  { text: 'मला या कागदपत्रात काय लिहिले आहे ते सांगा', language: 'marathi' },
+  { text: 'शाळा कधी सुरू होणार?', language: 'marathi' },
+  // Other scripts
+  { text: 'আজকের খবর কী?', language: 'bengali' },
+  { text: 'இன்றைய செய்திகள் என்ன?', language: 'tamil' },
+  { text: 'ਅੱਜ ਸੋਨੇ ਦਾ ਭਾਅ ਕੀ ਹੈ?', language: 'punjabi' },
+  { text: 'ఈ రోజు వార్తలు ఏమిటి?', language: 'telugu' },
+  { text: 'આજે સોનાનો ભાવ શું છે?', language: 'gujarati' },
+  { text: 'آج سونے کی قیمت کیا ہے؟', language: 'urdu' },
+];
+
+describe('detectLanguage', () => {
+  it.each(LABELED)('$text -> $language', ({ text, language }) => {
+    expect(detectLanguage(text).language).toBe(language);
+  });
+
+  it('resolves mixed-script input to the dominant language and flags it', () => {
+    const result = detectLanguage('Sensex आज कितना है?');
+    expect(result.language).toBe('hindi');
+    expect(result.mixed).toBe(true);
+  });
+
+  it('is confident about unambiguous messages', () => {
+    expect(detectLanguage('What does the contract say about termination?').confidence).toBeGreaterThan(0.8);
+    expect(detectLanguage('இன்றைய செய்திகள் என்ன?').confidence).toBe(1);
+  });
+
+  it('lowers confidence for very short messages', () => {
+    expect(detectLanguage('ok').confidence).toBeLessThan(0.5);
+  });
+
+  it('does not report Nepali as confident Hindi', () => {
+    expect(detectLanguage('तपाईंलाई कस्तो छ? आज मौसम राम्रो छ').confidence).toBeLessThan(0.5);
+  });
+
+  it('falls back to English with zero confidence when there are no words', () => {
+    expect(detectLanguage('123 ???')).toMatchObject({ language: 'english', confidence: 0 });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { bestLexicalScore, lexicalScore, tokenize } from '@shared/lexical';
+
+describe('tokenize', () => {
+  it('keeps letters, combining marks and digits', () => {
+    expect(tokenize('Q3 revenue — ₹1,200!')).toEqual(['q3', 'revenue', '1', '200']);
+    expect(tokenize('किराया समझौता')).toEqual(['किराया', 'समझौता']);
+  });
+});
+
+describe('bestLexicalScore', () => {
+  const passage = 'The security deposit is refunded within 30 days of the lease ending.';
+
+  it('scores a passage fully matching the query highly', () => {
+    expect(lexicalScore('security deposit is refunded', passage)).toBe(1);
+  });
+
+  it('matches phrases from adjacent query words', () => {
+    // Pairs: "rent the", "the rent", "rent increase"; the last two appear
+    expect(lexicalScore('rent the rent increase', 'the rent increase applies')).toBeCloseTo(0.8 + 0.2 * (2 / 3));
+  });
+
+  it('is not diluted by translations of the query', () => {
+    const query = 'when is the security deposit refunded';
+    const alone = bestLexicalScore([query], passage);
+    const translated = bestLexicalScore([
+      query,
+      'सुरक्षा जमा राशि कब वापस की जाती है',
+      'భద్రతా డిపాజిట్ ఎప్పుడు తిరిగి ఇస్తారు',
+    ], passage);
+    expect(translated).toBe(alone);
+    expect(translated).toBeGreaterThan(0.3);
+  });
+
+  it('matches a passage in the language of a translation', () => {
+    expect(bestLexicalScore(['rent increase', 'किराया वृद्धि'], 'किराया वृद्धि हर साल पाँच प्रतिशत')).toBe(1);
+    expect(bestLexicalScore([], passage)).toBe(0);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { isIpAddress, isPrivateAddress } from '@shared/network';
+
+describe('isPrivateAddress', () => {
+  it('refuses loopback, private, link-local and shared IPv4 ranges', () => {
+    ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0'].forEach((address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+    expect(isPrivateAddress('93.184.216.34')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+  });
+
+  it('refuses IPv4 addresses wrapped in IPv6', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('[::ffff:7f00:1]')).toBe(true);
+    expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true);
+    expect(isPrivateAddress('64:ff9b::10.0.0.1')).toBe(true);
+    expect(isPrivateAddress('::ffff:5db8:d822')).toBe(false);
+  });
+
+  it('refuses local IPv6 ranges and text that is not an address', () => {
+    ['::1', '::', 'fd00::1', 'fe80::1%eth0', 'ff02::1', '1::2::3', '999.1.1.1'].forEach((address) => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+    expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false);
+  });
+
+  it('tells IP literals from host names', () => {
+    expect(isIpAddress('[::1]')).toBe(true);
+    expect(isIpAddress('10.0.0.1')).toBe(true);
+    expect(isIpAddress('example.com')).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { csvToSheet } from '@shared/spreadsheet';
+import {
+  cellRange,
+  detectPdfTables,
+  type ExtractedTable,
+  formatTableResult,
+  MAX_TABLE_ROWS,
+  parseNumber,
+  type PositionedText,
+  runTableQuery,
+  sheetToTable,
+} from '@shared/tables';
+
+const sales = sheetToTable(csvToSheet([
+  'Region,Month,Amount',
+  'North,Jan,"₹1,200"',
+  'South,Jan,800',
+  'North,Feb,(300)',
+  'East,Feb,n/a',
+  'North,Mar,500',
+].join('\n'), 'Sales')) as ExtractedTable;
+
+describe('parseNumber', () => {
+  it('reads currency, grouping, percentages and accounting negatives', () => {
+    expect(parseNumber('₹1,23,456.50')).toBe(123456.5);
+    expect(parseNumber('Rs. 500')).toBe(500);
+    expect(parseNumber('(1,200)')).toBe(-1200);
+    expect(parseNumber('−4.5%')).toBe(-4.5);
+    expect(parseNumber('12 apples')).toBeNull();
+    expect(parseNumber('')).toBeNull();
+  });
+});
+
+describe('runTableQuery', () => {
+  it('takes the first row as the header', () => {
+    expect(sales.columns.map((column) => column.name)).toEqual(['Region', 'Month', 'Amount']);
+    expect(sales.rows[0].rowNumber).toBe(2);
+  });
+
+  it('sums a filtered column and cites the cells it read', () => {
+    const result = runTableQuery(sales, {
+      operation: 'sum',
+      column: 'amount',
+      filters: [{ column: 'Region', operator: '=', value: 'north' }],
+    });
+    expect(result.value).toBe(1400);
+    expect(result.usedRows).toEqual([2, 4, 6]);
+    expect(result.range).toBe('C2, C4, C6');
+  });
+
+  it('skips non-numeric cells in averages and cites only the extreme for max', () => {
+    const average = runTableQuery(sales, { operation: 'average', column: 'Amount' });
+    expect(average.value).toBe(550);
+    expect(average.skipped).toBe(1);
+
+    const max = runTableQuery(sales, { operation: 'max', column: 'C' });
+    expect(max.value).toBe(1200);
+    expect(max.range).toBe('C2');
+  });
+
+  it('compares numbers numerically in filters and lists whole rows', () => {
+    const result = runTableQuery(sales, {
+      operation: 'list',
+      filters: [{ column: 'Amount', operator: '>=', value: '800' }],
+    });
+    expect(result.usedRows).toEqual([2, 3]);
+    expect(result.range).toBe('A2:C3');
+    expect(formatTableResult(sales, 'q1.csv', result)).toContain('Row 3 | Region (A3): South | Month (B3): Jan | Amount (C3): 800');
+  });
+
+  it('rejects columns the table does not have', () => {
+    expect(() => runTableQuery(sales, { operation: 'sum', column: 'Profit' })).toThrow(/no column "Profit"/);
+  });
+
+  it('reports results over tables cut short at the row limit as partial', () => {
+    const rows = Array.from({ length: MAX_TABLE_ROWS + 500 }, (_, i) => `${i + 1},1`);
+    const large = sheetToTable(csvToSheet(['Id,Amount', ...rows].join('\n'), 'Large')) as ExtractedTable;
+    expect(large.rows).toHaveLength(MAX_TABLE_ROWS);
+    expect(large.rowCount).toBe(MAX_TABLE_ROWS + 500);
+
+    const result = runTableQuery(large, { operation: 'sum', column: 'Amount' });
+    expect(result.value).toBe(MAX_TABLE_ROWS);
+    expect(result.partial).toBe(true);
+    expect(formatTableResult(large, 'big.csv', result)).toContain(`PARTIAL RESULT: only the first ${MAX_TABLE_ROWS} of ${MAX_TABLE_ROWS + 500} rows`);
+    expect(runTableQuery(sales, { operation: 'count' }).partial).toBe(false);
+  });
+
+  it('collapses consecutive rows into ranges', () => {
+    expect(cellRange([5, 2, 3, 4, 9], 1)).toBe('B2:B5, B9');
+  });
+});
+
+describe('detectPdfTables', () => {
+  const line = (y: number, cells: [number, string][]): PositionedText[] =>
+    cells.map(([x, text]) => ({ text, x, y, width: text.length * 5, height: 10 }));
+
+  it('finds column-aligned lines with a numeric column', () => {
+    const tables = detectPdfTables([{
+      pageNumber: 3,
+      items: [
+        ...line(700, [[50, 'Quarterly'], [100, 'statement']]),
+        ...line(680, [[50, 'Quarter'], [200, 'Revenue']]),
+        ...line(660, [[50, 'Q1'], [200, '1,000']]),
+        ...line(640, [[50, 'Q2'], [200, '1,500']]),
+        ...line(600, [[50, 'Figures are unaudited.']]),
+      ],
+    }]);
+
+    expect(tables).toHaveLength(1);
+    expect(tables[0].name).toBe('Page 3 table 1');
+    expect(tables[0].columns.map((column) => column.name)).toEqual(['Quarter', 'Revenue']);
+    expect(runTableQuery(tables[0], { operation: 'sum', column: 'Revenue' }).value).toBe(2500);
+  });
+
+  it('ignores aligned text without numbers', () => {
+    const tables = detectPdfTables([{
+      pageNumber: 1,
+      items: [
+        ...line(700, [[50, 'Left'], [300, 'Right']]),
+        ...line(680, [[50, 'column'], [300, 'column']]),
+        ...line(660, [[50, 'prose'], [300, 'prose']]),
+      ],
+    }]);
+    expect(tables).toEqual([]);
+  });
+});
@@ -0,0 +1,174 @@
+// Splits document text into overlapping passages for embedding and retrieval.
+import { findTimestamps, type TimestampMark } from "./media.ts";
+
+export interface TextChunk {
+  index: number;
+  content: string;
+  pageNumber?: number;
+  // Heading, slide or sheet (with row range) the chunk comes from
+  section?: string;
+  // Media position covered by the chunk, from [MM:SS] marks in transcripts
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface PageText {
+  pageNumber: number;
+  text: string;
+}
+
+export interface SectionText {
+  // Null for text before the first section marker
+  label: string | null;
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlapChars?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP_CHARS = 200;
+
+// Prefer breaking on paragraph, then sentence, then word boundaries
+function findBreakPoint(text: string, start: number, end: number): number {
+  if (end >= text.length) return text.length;
+
+  const window = text.slice(start, end);
+  const minBreak = Math.floor(window.length * 0.5);
+
+  for (const separator of ["\n\n", "\n", ". ", "। ", "۔ ", "? ", "! ", " "]) {
+    const idx = window.lastIndexOf(separator);
+    if (idx >= minBreak) {
+      return start + idx + separator.length;
+    }
+  }
+  return end;
+}
+
+// The mark in effect at the chunk start through the first mark after its end
+function timeRange(marks: TimestampMark[], start: number, end: number): Pick<TextChunk, "startSeconds" | "endSeconds"> {
+  if (marks.length === 0) return {};
+
+  const before = marks.filter((m) => m.offset <= start).pop();
+  const inside = marks.filter((m) => m.offset > start && m.offset < end);
+  const after = marks.find((m) => m.offset >= end);
+
+  const startSeconds = before?.seconds ?? inside[0]?.seconds ?? after?.seconds;
+  const endSeconds = after?.seconds ?? inside[inside.length - 1]?.seconds ?? startSeconds;
+  return { startSeconds, endSeconds };
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? DEFAULT_OVERLAP_CHARS, Math.floor(maxChars / 2));
+  const normalized = text.replace(/\r\n/g, "\n").replace(/[ \t]+\n/g, "\n").trim();
+
+  const chunks: TextChunk[] = [];
+  if (!normalized) return chunks;
+
+  const marks = findTimestamps(normalized);
+  let start = 0;
+  while (start < normalized.length) {
+    const end = findBreakPoint(normalized, start, start + maxChars);
+    const content = normalized.slice(start, end).trim();
+    if (content) {
+      chunks.push({ index: chunks.length, content, ...timeRange(marks, start, end) });
+    }
+    if (end >= normalized.length) break;
+
+    // Step back for overlap, but always make forward progress
+    const next = end - overlapChars;
+    start = next > start ? next : end;
+  }
+
+  return chunks;
+}
+
+// Paged documents (e.g. PDFs) are stored as text with a marker line per page
+const PAGE_MARKER = /^\[Page (\d+)\]$/gm;
+
+export function formatPages(pages: PageText[]): string {
+  return pages
+    .filter((page) => page.text.trim())
+    .map((page) => `[Page ${page.pageNumber}]\n${page.text.trim()}`)
+    .join("\n\n");
+}
+
+export function splitPages(text: string): PageText[] {
+  const markers = [...text.matchAll(PAGE_MARKER)];
+  return markers.map((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : text.length;
+    return { pageNumber: parseInt(marker[1], 10), text: text.slice(start, end).trim() };
+  });
+}
+
+// Unpaged documents with structure (headings, slides, sheets) are stored with
+// a marker line per section instead
+const SECTION_MARKER = /^\[Section: (.+)\]$/gm;
+// Spreadsheet rows are written as "Row 12 | ..." lines
+const ROW_LINE = /^Row (\d+) \|/gm;
+
+export function formatSections(sections: SectionText[]): string {
+  return sections
+    .filter((section) => section.text.trim())
+    .map((section) => section.label ? `[Section: ${section.label}]\n${section.text.trim()}` : section.text.trim())
+    .join("\n\n");
+}
+
+export function splitSections(text: string): SectionText[] {
+  const markers = [...text.matchAll(SECTION_MARKER)];
+  if (markers.length === 0) return [];
+
+  const sections: SectionText[] = [];
+  const preamble = text.slice(0, markers[0].index!).trim();
+  if (preamble) sections.push({ label: null, text: preamble });
+  markers.forEach((marker, i) => {
+    const start = marker.index! + marker[0].length;
+    const end = i + 1 < markers.length ? markers[i + 1].index! : text.length;
+    sections.push({ label: marker[1].trim(), text: text.slice(start, end).trim() });
+  });
+  return sections;
+}
+
+// A sheet's chunks are labelled with the rows they cover ("Sales, rows 12-40")
+function sectionLabel(label: string | null, content: string): string | undefined {
+  if (!label) return undefined;
+  const rows = [...content.matchAll(ROW_LINE)].map((match) => parseInt(match[1], 10));
+  if (rows.length === 0) return label;
+
+  const first = Math.min(...rows);
+  const last = Math.max(...rows);
+  return first === last ? `${label}, row ${first}` : `${label}, rows ${first}-${last}`;
+}
+
+// Chunks a stored document, keeping each chunk within a single page (or
+// section) when the text carries markers so citations can point at real page
+// numbers, headings, slides and spreadsheet rows
+export function chunkDocument(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const chunks: TextChunk[] = [];
+
+  const pages = splitPages(text);
+  if (pages.length > 0) {
+    pages.forEach((page) => {
+      chunkText(page.text, options).forEach((chunk) => {
+        chunks.push({ ...chunk, index: chunks.length, pageNumber: page.pageNumber });
+      });
+    });
+    return chunks;
+  }
+
+  const sections = splitSections(text);
+  if (sections.length > 0) {
+    sections.forEach((section) => {
+      chunkText(section.text, options).forEach((chunk) => {
+        chunks.push({ ...chunk, index: chunks.length, section: sectionLabel(section.label, chunk.content) });
+      });
+    });
+    return chunks;
+  }
+
+  return chunkText(text, options);
+}
@@ -0,0 +1,49 @@
+// Embedding generation through the Lovable AI gateway.
+
+export const EMBEDDING_MODEL = "google/text-embedding-004";
+export const EMBEDDING_DIMENSIONS = 768;
+
+const EMBEDDINGS_URL = "https://ai.gateway.lovable.dev/v1/embeddings";
+const BATCH_SIZE = 32;
+
+export async function embedTexts(texts: string[], apiKey: string): Promise<number[][]> {
+  const embeddings: number[][] = [];
+
+  for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+    const batch = texts.slice(i, i + BATCH_SIZE);
+    const response = await fetch(EMBEDDINGS_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: EMBEDDING_MODEL,
+        input: batch,
+        dimensions: EMBEDDING_DIMENSIONS,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Embedding API error:", response.status, errorText);
+      throw new Error(`Embedding failed: ${response.status}`);
+    }
+
+    const result = await response.json();
+    const data = (result.data || []) as { index: number; embedding: number[] }[];
+    data.sort((a, b) => a.index - b.index);
+    embeddings.push(...data.map((d) => d.embedding));
+  }
+
+  if (embeddings.length !== texts.length) {
+    throw new Error(`Embedding count mismatch: expected ${texts.length}, got ${embeddings.length}`);
+  }
+
+  return embeddings;
+}
+
+// pgvector accepts the JSON array literal form
+export function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(",")}]`;
+}
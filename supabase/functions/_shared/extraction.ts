@@ -0,0 +1,176 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { formatPages } from "./chunking.ts";
+import { extractPdfPages, extractPdfTables } from "./pdf.ts";
+import { createOcrEngine, formatOcrContent } from "./ocr.ts";
+import { indexDocument } from "./indexing.ts";
+import { DOCX_TYPE, getFileType, PPTX_TYPE, XLSX_TYPE } from "./file-types.ts";
+import { htmlToText, markdownToText } from "./markup.ts";
+import { extractDocx, extractPptx, readXlsxSheets } from "./office.ts";
+import { csvToSheet, formatSpreadsheet, type Sheet } from "./spreadsheet.ts";
+import { type ExtractedTable, isTruncated, sheetToTable } from "./tables.ts";
+
+export interface ExtractionResult {
+  pageCount: number | null;
+  engine: string;
+  fullLength: number;
+  chunkCount: number;
+  tableCount: number;
+}
+
+export function isExtractable(fileType: string): boolean {
+  return getFileType(fileType)?.ingestion === "extract";
+}
+
+const OFFICE_EXTRACTORS: Record<string, (bytes: Uint8Array) => string> = {
+  [DOCX_TYPE]: extractDocx,
+  [PPTX_TYPE]: extractPptx,
+};
+
+// Spreadsheets are read as sheets so their rows are also stored as tables
+function readSheets(bytes: Uint8Array, mimeType: string, documentName: string): Sheet[] {
+  if (mimeType === XLSX_TYPE) return readXlsxSheets(bytes);
+  // A CSV file is a single sheet, named after the file
+  return [csvToSheet(new TextDecoder().decode(bytes), documentName.replace(/\.[^.]+$/, ""))];
+}
+
+// Text formats converted without a library; the engine name is the format
+function extractMarkup(bytes: Uint8Array, mimeType: string): string {
+  const text = new TextDecoder().decode(bytes);
+  switch (mimeType) {
+    case "text/markdown":
+      return markdownToText(text);
+    case "text/html":
+      return htmlToText(text);
+    default:
+      throw new Error(`Unsupported file type for extraction: ${mimeType}`);
+  }
+}
+
+// Replaces the structured tables stored for a document in one transaction
+async function saveDocumentTables(
+  supabase: SupabaseClient,
+  documentId: string,
+  tables: ExtractedTable[],
+): Promise<void> {
+  const rows = tables.map((table, i) => ({
+    table_index: i,
+    name: table.name,
+    page_number: table.pageNumber,
+    columns: table.columns,
+    rows: table.rows,
+    row_count: table.rowCount,
+    truncated: isTruncated(table),
+  }));
+
+  const { error } = await supabase.rpc("replace_document_tables", {
+    target_document_id: documentId,
+    tables: rows,
+  });
+  if (error) {
+    throw new Error(`Failed to save tables: ${error.message}`);
+  }
+}
+
+// Downloads a PDF, image, Office file, CSV, Markdown or HTML file, stores its
+// extracted text (and any tables in spreadsheets and PDFs) on the document and
+// indexes it. Expects a service-role client.
+export async function extractDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  apiKey: string,
+  ocrEngineName?: string,
+): Promise<ExtractionResult> {
+  const { data: doc, error: docError } = await supabase
+    .from("documents")
+    .select("id, user_id, name, file_path, file_type")
+    .eq("id", documentId)
+    .single();
+
+  if (docError || !doc) {
+    throw new Error(`Document not found: ${docError?.message ?? documentId}`);
+  }
+  const fileType = getFileType(doc.file_type);
+  if (!fileType || fileType.ingestion !== "extract") {
+    throw new Error(`Unsupported file type for extraction: ${doc.file_type}`);
+  }
+
+  console.log(`Starting extraction for: ${doc.name} (${doc.file_type})`);
+
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(doc.file_path);
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file: ${downloadError?.message}`);
+  }
+
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+  let content = "";
+  let pageCount: number | null = null;
+  let engine = "unpdf";
+  let tables: ExtractedTable[] = [];
+
+  if (fileType.mimeType === "application/pdf") {
+    // A PDF without recognisable tables is still indexed as text
+    try {
+      tables = await extractPdfTables(bytes);
+    } catch (e) {
+      console.error("Error finding tables in PDF:", e);
+    }
+    const pages = await extractPdfPages(bytes);
+    content = formatPages(pages);
+    pageCount = pages.length;
+    if (!content) {
+      throw new Error("No extractable text found (the PDF may be scanned images)");
+    }
+  } else if (fileType.category === "spreadsheet") {
+    const sheets = readSheets(bytes, fileType.mimeType, doc.name);
+    content = formatSpreadsheet(sheets);
+    tables = sheets.map(sheetToTable).filter((table): table is ExtractedTable => table !== null);
+    engine = fileType.mimeType === XLSX_TYPE ? "ooxml" : "csv";
+    if (!content) {
+      throw new Error(`No text found in the ${fileType.label} file`);
+    }
+  } else if (OFFICE_EXTRACTORS[fileType.mimeType]) {
+    content = OFFICE_EXTRACTORS[fileType.mimeType](bytes);
+    engine = "ooxml";
+    if (!content) {
+      throw new Error(`No text found in the ${fileType.label} file`);
+    }
+  } else if (fileType.category !== "image") {
+    content = extractMarkup(bytes, fileType.mimeType);
+    engine = fileType.label.toLowerCase();
+    if (!content) {
+      throw new Error(`No text found in the ${fileType.label} file`);
+    }
+  } else {
+    const ocr = createOcrEngine(ocrEngineName, apiKey);
+    const result = await ocr.recognize(bytes, doc.file_type);
+    content = formatOcrContent(result);
+    engine = result.engine;
+    if (!content) {
+      throw new Error("No text or description could be extracted from the image");
+    }
+  }
+
+  console.log(`Extracted ${content.length} characters with ${engine}`);
+
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({ content, page_count: pageCount })
+    .eq("id", doc.id);
+
+  if (updateError) {
+    throw new Error(`Failed to save extracted text: ${updateError.message}`);
+  }
+
+  await saveDocumentTables(supabase, doc.id, tables);
+  if (tables.length > 0) {
+    console.log(`Stored ${tables.length} tables`);
+  }
+
+  const { chunkCount } = await indexDocument(supabase, doc.id, apiKey);
+  console.log(`Extracted text indexed into ${chunkCount} chunks`);
+
+  return { pageCount, engine, fullLength: content.length, chunkCount, tableCount: tables.length };
+}
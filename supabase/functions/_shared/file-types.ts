@@ -0,0 +1,204 @@
+// File types the knowledge base accepts. Uploads are checked against this list
+// in the browser (src/lib/ingestion.ts) and again by ingest-document, and the
+// ingestion worker uses it to pick the processing step and extractor for a document.
+// No runtime-specific imports, so the edge functions and the client share it.
+
+export type IngestionKind = "extract" | "transcribe" | "index";
+
+export type FileCategory = "document" | "spreadsheet" | "presentation" | "image" | "video" | "audio";
+
+export interface FileTypeDefinition {
+  // Stored as documents.file_type
+  mimeType: string;
+  // Other MIME types browsers report for the same files
+  aliases: string[];
+  extensions: string[];
+  label: string;
+  category: FileCategory;
+  ingestion: IngestionKind;
+  maxBytes: number;
+  // Stored as the document's content directly at upload, without extraction
+  plainText?: boolean;
+}
+
+const MB = 1024 * 1024;
+
+export const DOCX_TYPE = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+export const PPTX_TYPE = "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+export const XLSX_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+export const FILE_TYPES: FileTypeDefinition[] = [
+  {
+    mimeType: "application/pdf",
+    aliases: [],
+    extensions: [".pdf"],
+    label: "PDF",
+    category: "document",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "text/plain",
+    aliases: [],
+    extensions: [".txt"],
+    label: "TXT",
+    category: "document",
+    ingestion: "index",
+    maxBytes: 10 * MB,
+    plainText: true,
+  },
+  {
+    mimeType: "text/markdown",
+    aliases: ["text/x-markdown"],
+    extensions: [".md", ".markdown"],
+    label: "Markdown",
+    category: "document",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "text/html",
+    aliases: ["application/xhtml+xml"],
+    extensions: [".html", ".htm"],
+    label: "HTML",
+    category: "document",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: DOCX_TYPE,
+    aliases: [],
+    extensions: [".docx"],
+    label: "Word",
+    category: "document",
+    ingestion: "extract",
+    maxBytes: 20 * MB,
+  },
+  {
+    mimeType: PPTX_TYPE,
+    aliases: [],
+    extensions: [".pptx"],
+    label: "PowerPoint",
+    category: "presentation",
+    ingestion: "extract",
+    maxBytes: 25 * MB,
+  },
+  {
+    mimeType: XLSX_TYPE,
+    aliases: [],
+    extensions: [".xlsx"],
+    label: "Excel",
+    category: "spreadsheet",
+    ingestion: "extract",
+    maxBytes: 20 * MB,
+  },
+  {
+    mimeType: "text/csv",
+    // Windows reports CSV files as Excel
+    aliases: ["application/csv", "text/x-csv", "application/vnd.ms-excel"],
+    extensions: [".csv"],
+    label: "CSV",
+    category: "spreadsheet",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "image/png",
+    aliases: [],
+    extensions: [".png"],
+    label: "PNG",
+    category: "image",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "image/jpeg",
+    aliases: ["image/jpg"],
+    extensions: [".jpg", ".jpeg"],
+    label: "JPG",
+    category: "image",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "image/webp",
+    aliases: [],
+    extensions: [".webp"],
+    label: "WEBP",
+    category: "image",
+    ingestion: "extract",
+    maxBytes: 10 * MB,
+  },
+  {
+    mimeType: "video/mp4",
+    aliases: [],
+    extensions: [".mp4"],
+    label: "MP4",
+    category: "video",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+  {
+    mimeType: "video/quicktime",
+    aliases: [],
+    extensions: [".mov"],
+    label: "MOV",
+    category: "video",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+  {
+    mimeType: "video/webm",
+    aliases: [],
+    extensions: [".webm"],
+    label: "WEBM",
+    category: "video",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+  {
+    mimeType: "audio/mpeg",
+    aliases: [],
+    extensions: [".mp3"],
+    label: "MP3",
+    category: "audio",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+  {
+    mimeType: "audio/wav",
+    aliases: ["audio/x-wav", "audio/wave"],
+    extensions: [".wav"],
+    label: "WAV",
+    category: "audio",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+  {
+    mimeType: "audio/mp4",
+    aliases: ["audio/x-m4a", "audio/m4a"],
+    extensions: [".m4a"],
+    label: "M4A",
+    category: "audio",
+    ingestion: "transcribe",
+    maxBytes: 50 * MB,
+  },
+];
+
+// For <input accept>
+export const ACCEPTED_EXTENSIONS = FILE_TYPES.flatMap((type) => type.extensions).join(",");
+
+export const SUPPORTED_FORMATS_LABEL = FILE_TYPES.map((type) => type.label).join(", ");
+
+// Looks a stored or reported MIME type up, including aliases
+export function getFileType(mimeType: string): FileTypeDefinition | null {
+  return FILE_TYPES.find((type) => type.mimeType === mimeType || type.aliases.includes(mimeType)) ?? null;
+}
+
+// Browsers report no or inconsistent MIME types for Markdown, CSV and Office
+// files, so the extension decides and the MIME type is only a fallback
+export function resolveFileType(fileName: string, mimeType: string): FileTypeDefinition | null {
+  const dot = fileName.lastIndexOf(".");
+  const extension = dot === -1 ? "" : fileName.slice(dot).toLowerCase();
+  return FILE_TYPES.find((type) => type.extensions.includes(extension)) ?? getFileType(mimeType);
+}
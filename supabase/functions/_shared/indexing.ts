@@ -0,0 +1,70 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { chunkDocument } from "./chunking.ts";
+import { embedTexts, toVectorLiteral } from "./embeddings.ts";
+import { detectLanguage } from "./language.ts";
+
+export interface IndexResult {
+  documentId: string;
+  chunkCount: number;
+  language: string | null;
+}
+
+// Enough text to find the dominant language without scoring a whole book
+const LANGUAGE_SAMPLE_CHARS = 20_000;
+
+// Re-chunks and re-embeds a document, replacing any chunks it already has.
+// Expects a service-role client since chunks are written on the user's behalf.
+export async function indexDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  apiKey: string,
+): Promise<IndexResult> {
+  const { data: doc, error: docError } = await supabase
+    .from("documents")
+    .select("id, name, content")
+    .eq("id", documentId)
+    .single();
+
+  if (docError || !doc) {
+    throw new Error(`Document not found: ${docError?.message ?? documentId}`);
+  }
+
+  const chunks = chunkDocument(doc.content || "");
+  console.log(`Indexing ${doc.name}: ${chunks.length} chunks`);
+
+  // Recorded so chat can translate questions into the languages being searched
+  const sample = (doc.content || "").slice(0, LANGUAGE_SAMPLE_CHARS);
+  const language = sample.trim() ? detectLanguage(sample).language : null;
+  const { error: languageError } = await supabase
+    .from("documents")
+    .update({ language })
+    .eq("id", documentId);
+
+  if (languageError) {
+    throw new Error(`Failed to save document language: ${languageError.message}`);
+  }
+
+  // Embedded before anything is replaced, so a failure here keeps the old chunks
+  const embeddings = chunks.length > 0 ? await embedTexts(chunks.map((c) => c.content), apiKey) : [];
+
+  const rows = chunks.map((chunk, i) => ({
+    chunk_index: chunk.index,
+    content: chunk.content,
+    page_number: chunk.pageNumber ?? null,
+    section: chunk.section ?? null,
+    start_seconds: chunk.startSeconds ?? null,
+    end_seconds: chunk.endSeconds ?? null,
+    embedding: toVectorLiteral(embeddings[i]),
+  }));
+
+  // Old chunks are deleted and new ones inserted in one transaction
+  const { error: replaceError } = await supabase.rpc("replace_document_chunks", {
+    target_document_id: doc.id,
+    chunks: rows,
+  });
+  if (replaceError) {
+    throw new Error(`Failed to save chunks: ${replaceError.message}`);
+  }
+
+  return { documentId, chunkCount: rows.length, language };
+}
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { FileTypeDefinition } from "./file-types.ts";
+
+// The last step of every way into the knowledge base (ingest-document for
+// uploads, fetch-url for web pages): the stored file gets its documents row and
+// an ingestion job of the kind its file type needs, and the worker is started.
+
+export interface NewDocument {
+  userId: string;
+  name: string;
+  // Object in the documents bucket, already uploaded
+  filePath: string;
+  fileType: FileTypeDefinition;
+  fileSize: number;
+  // Text of plain-text files; everything else is extracted or transcribed by the worker
+  content?: string | null;
+  durationSeconds?: number | null;
+  sourceUrl?: string | null;
+  fetchedAt?: string | null;
+}
+
+export interface RegisteredDocument {
+  id: string;
+  name: string;
+  fileType: string;
+  jobId: string;
+}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Creates the document and its ingestion job. On failure nothing is left
+// behind, including the stored file. Expects a service-role client.
+export async function registerDocument(supabase: SupabaseClient, doc: NewDocument): Promise<RegisteredDocument> {
+  const discardFile = () => supabase.storage.from("documents").remove([doc.filePath]);
+
+  const { data: saved, error: insertError } = await supabase
+    .from("documents")
+    .insert({
+      user_id: doc.userId,
+      name: doc.name,
+      file_path: doc.filePath,
+      file_type: doc.fileType.mimeType,
+      file_size: doc.fileSize,
+      content: doc.content ?? null,
+      duration_seconds: doc.durationSeconds ?? null,
+      source_url: doc.sourceUrl ?? null,
+      fetched_at: doc.fetchedAt ?? null,
+    })
+    .select("id, name, file_type")
+    .single();
+
+  if (insertError || !saved) {
+    await discardFile();
+    throw new Error(`Failed to save document: ${insertError?.message}`);
+  }
+
+  const { data: job, error: jobError } = await supabase
+    .from("ingestion_jobs")
+    .insert({ document_id: saved.id, user_id: doc.userId, kind: doc.fileType.ingestion })
+    .select("id")
+    .single();
+
+  if (jobError || !job) {
+    await supabase.from("documents").delete().eq("id", saved.id);
+    await discardFile();
+    throw new Error(`Failed to queue ingestion: ${jobError?.message}`);
+  }
+
+  return { id: saved.id, name: saved.name, fileType: saved.file_type, jobId: job.id };
+}
+
+// Starts the worker on the job without waiting for it; job status reaches the
+// client over realtime
+export function startIngestionWorker(supabaseUrl: string, serviceRoleKey: string, jobId: string): void {
+  EdgeRuntime.waitUntil(
+    fetch(`${supabaseUrl}/functions/v1/ingestion-worker`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ jobId }),
+    }).catch((e) => console.error("Failed to start ingestion:", e))
+  );
+}
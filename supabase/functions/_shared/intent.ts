@@ -0,0 +1,191 @@
+// Classifies whether a question asks for live market, gold, news or political
+// data. Queries mix English, Hindi (Devanagari), Hinglish and Urdu, so each
+// label has a weighted multilingual lexicon: distinctive terms ("sensex",
+// "चुनाव") carry most of a label's score, while generic words ("today",
+// "market") only add to it. Negated terms ("news nahi chahiye") and questions
+// about the user's own documents do not count as asking for live data.
+// No runtime-specific imports, so the edge functions and vitest share it.
+
+export type IntentLabel = "stock" | "gold" | "news" | "politics";
+
+export interface IntentClassification {
+  // Labels at or above the threshold, best first
+  intents: IntentLabel[];
+  scores: Record<IntentLabel, number>;
+  // Lexicon terms that counted, per label
+  matched: Record<IntentLabel, string[]>;
+  // Terms that were found but negated
+  negated: string[];
+  // Highest score across labels
+  confidence: number;
+  // The question is about the user's documents, so live-data scores were damped
+  documentFocused: boolean;
+}
+
+export interface IntentOptions {
+  threshold?: number;
+}
+
+export const INTENT_LABELS: IntentLabel[] = ["stock", "gold", "news", "politics"];
+
+export const DEFAULT_INTENT_THRESHOLD = 0.6;
+
+// Weights are per term; a label's score is the capped sum of its matched terms
+const LEXICON: Record<IntentLabel, Record<string, number>> = {
+  stock: {
+    // English
+    "stock": 0.8, "stocks": 0.8, "stock market": 0.9, "stock price": 0.9, "share market": 0.9,
+    "share price": 0.9, "sensex": 0.9, "nifty": 0.9, "nasdaq": 0.9, "dow jones": 0.9, "s p 500": 0.9,
+    "ipo": 0.7, "dividend": 0.6, "equity": 0.5, "portfolio": 0.5, "ticker": 0.7, "nse": 0.7, "bse": 0.7,
+    "trading": 0.5, "invest": 0.4, "investment": 0.4, "market": 0.35, "share": 0.3, "shares": 0.4,
+    "bull": 0.25, "bear": 0.25,
+    // Hindi
+    "शेयर": 0.7, "शेयर बाजार": 0.9, "बाजार": 0.35, "निफ्टी": 0.9, "सेंसेक्स": 0.9, "स्टॉक": 0.8, "निवेश": 0.4,
+    // Hinglish
+    "share bazaar": 0.9, "bazaar": 0.3,
+    // Urdu
+    "حصص": 0.8, "اسٹاک": 0.8, "اسٹاک ایکسچینج": 0.9, "مارکیٹ": 0.35, "سرمایہ کاری": 0.4,
+  },
+  gold: {
+    // English
+    "gold": 0.7, "gold price": 0.9, "gold rate": 0.9, "bullion": 0.8, "precious metal": 0.7,
+    "24k": 0.6, "22k": 0.6, "18k": 0.6, "karat": 0.5, "carat": 0.5, "jewellery": 0.3, "jewelry": 0.3,
+    // Hindi ("सोना" is also "to sleep", hence below the threshold on its own)
+    "सोना": 0.55, "सोने": 0.55, "सोने का भाव": 0.9, "सोने की कीमत": 0.9,
+    // Hinglish
+    "sona": 0.5, "sone": 0.5, "sone ka bhav": 0.9, "sone ka rate": 0.9,
+    // Urdu
+    "سونا": 0.55, "سونے": 0.55, "سونے کی قیمت": 0.9, "طلائی": 0.6,
+  },
+  news: {
+    // English
+    "news": 0.8, "headlines": 0.8, "headline": 0.7, "breaking news": 0.9, "current events": 0.8,
+    "latest": 0.25, "today": 0.2, "recent": 0.2, "update": 0.2, "updates": 0.25, "happening": 0.3,
+    // Hindi
+    "खबर": 0.8, "खबरें": 0.8, "समाचार": 0.8, "न्यूज": 0.8, "न्यूज़": 0.8, "ताजा": 0.25, "आज": 0.15,
+    // Hinglish
+    "khabar": 0.8, "khabren": 0.8, "samachar": 0.8, "taaza": 0.25, "aaj": 0.15,
+    // Urdu
+    "خبر": 0.8, "خبریں": 0.8, "تازہ": 0.25, "آج": 0.15,
+  },
+  politics: {
+    // English
+    "politics": 0.8, "political": 0.8, "election": 0.8, "elections": 0.8, "parliament": 0.7,
+    "government": 0.45, "minister": 0.6, "prime minister": 0.8, "president": 0.45, "policy": 0.25,
+    "vote": 0.45, "voting": 0.5, "campaign": 0.35, "party": 0.2, "congress": 0.4, "bjp": 0.8,
+    "democrat": 0.7, "democrats": 0.7, "republican": 0.7, "republicans": 0.7, "legislation": 0.6,
+    "lok sabha": 0.8,
+    // Hindi
+    "राजनीति": 0.9, "चुनाव": 0.9, "सरकार": 0.45, "संसद": 0.7, "मंत्री": 0.6, "प्रधानमंत्री": 0.8,
+    // Hinglish
+    "rajneeti": 0.9, "chunav": 0.8, "sarkar": 0.45,
+    // Urdu
+    "سیاست": 0.9, "انتخابات": 0.9, "حکومت": 0.45, "پارلیمنٹ": 0.7, "وزیر اعظم": 0.8,
+  },
+};
+
+// Questions about the user's own files are RAG questions even when they
+// mention gold or elections
+const DOCUMENT_TERMS = new Set([
+  "document", "documents", "pdf", "file", "files", "uploaded", "upload", "notes",
+  "दस्तावेज़", "दस्तावेज", "फ़ाइल", "फाइल", "dastavez", "دستاویز", "فائل",
+]);
+const DOCUMENT_DAMPING = 0.5;
+
+// English-style negators precede what they negate ("no news", "without gold")
+const NEGATORS_BEFORE = new Set([
+  "not", "no", "never", "without", "except", "dont", "doesnt", "didnt", "isnt", "bina", "बिना", "بغیر",
+]);
+// Hindi/Urdu negation follows the verb phrase ("news nahi chahiye")
+const NEGATORS_AFTER = new Set(["nahi", "nahin", "mat", "नहीं", "मत", "نہیں", "مت"]);
+const NEGATION_WINDOW = 3;
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+const DOCUMENT_TOKENS = new Set([...DOCUMENT_TERMS].flatMap(tokenize));
+
+interface LexiconTerm {
+  label: IntentLabel;
+  term: string;
+  tokens: string[];
+  weight: number;
+}
+
+// Longest terms first so "gold price" is matched before "gold"
+const TERMS: LexiconTerm[] = INTENT_LABELS
+  .flatMap((label) => Object.entries(LEXICON[label]).map(([term, weight]) => ({
+    label,
+    term,
+    tokens: tokenize(term),
+    weight,
+  })))
+  .sort((a, b) => b.tokens.length - a.tokens.length);
+
+// Negation never reaches across punctuation ("no, tell me the gold price")
+function splitClauses(text: string): string[][] {
+  return text
+    .split(/[,.;:!?।۔؟]+/)
+    .map(tokenize)
+    .filter((tokens) => tokens.length > 0);
+}
+
+function isNegated(tokens: string[], start: number, end: number): boolean {
+  const before = tokens.slice(Math.max(0, start - NEGATION_WINDOW), start);
+  const after = tokens.slice(end, end + NEGATION_WINDOW);
+  return before.some((token) => NEGATORS_BEFORE.has(token)) || after.some((token) => NEGATORS_AFTER.has(token));
+}
+
+export function classifyIntent(text: string, options: IntentOptions = {}): IntentClassification {
+  const threshold = options.threshold ?? DEFAULT_INTENT_THRESHOLD;
+  const raw: Record<IntentLabel, number> = { stock: 0, gold: 0, news: 0, politics: 0 };
+  const matched: Record<IntentLabel, string[]> = { stock: [], gold: [], news: [], politics: [] };
+  const negated: string[] = [];
+  let documentFocused = false;
+
+  splitClauses(text).forEach((tokens) => {
+    if (tokens.some((token) => DOCUMENT_TOKENS.has(token))) documentFocused = true;
+
+    const used = new Array<boolean>(tokens.length).fill(false);
+    TERMS.forEach(({ label, term, tokens: termTokens, weight }) => {
+      for (let start = 0; start + termTokens.length <= tokens.length; start++) {
+        const end = start + termTokens.length;
+        const hit = termTokens.every((token, i) => tokens[start + i] === token && !used[start + i]);
+        if (!hit) continue;
+
+        used.fill(true, start, end);
+        if (isNegated(tokens, start, end)) {
+          negated.push(term);
+        } else if (!matched[label].includes(term)) {
+          matched[label].push(term);
+          raw[label] += weight;
+        }
+      }
+    });
+  });
+
+  const damping = documentFocused ? DOCUMENT_DAMPING : 1;
+  const scores = Object.fromEntries(
+    INTENT_LABELS.map((label) => [label, Math.round(Math.min(raw[label], 1) * damping * 100) / 100]),
+  ) as Record<IntentLabel, number>;
+
+  const intents = INTENT_LABELS
+    .filter((label) => scores[label] >= threshold)
+    .sort((a, b) => scores[b] - scores[a]);
+
+  return {
+    intents,
+    scores,
+    matched,
+    negated,
+    confidence: Math.max(...INTENT_LABELS.map((label) => scores[label])),
+    documentFocused,
+  };
+}
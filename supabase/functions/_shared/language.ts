@@ -0,0 +1,189 @@
+// Detects the language a message is written in. Every word casts a vote:
+// the script decides the language outright for Bengali, Gurmukhi (Punjabi),
+// Gujarati, Tamil, Telugu and Arabic (Urdu) script, while Devanagari (Hindi
+// vs Marathi) and Latin (English vs Hinglish) words are told apart by weighted
+// function-word dictionaries. Words no dictionary knows follow whichever language the known
+// words of their script point to. Because votes are per word, mixed-script
+// messages ("Sensex आज कितना है?") resolve to the dominant language, and the
+// winner's share of the votes is reported as the confidence.
+// No runtime-specific imports, so the edge functions and vitest share it.
+import type { LanguageCode } from "./languages.ts";
+
+// Every registered response language can be detected
+export type DetectedLanguage = LanguageCode;
+
+export interface LanguageDetection {
+  language: DetectedLanguage;
+  // Share of the evidence behind `language`, lowered for very short messages
+  confidence: number;
+  scores: Record<DetectedLanguage, number>;
+  // A second language carries a substantial share of the message
+  mixed: boolean;
+}
+
+export const DETECTED_LANGUAGES: DetectedLanguage[] = [
+  "english", "hindi", "hinglish", "urdu", "bengali", "tamil", "telugu", "marathi", "gujarati", "punjabi",
+];
+
+type Script = "latin" | "devanagari" | "bengali" | "gurmukhi" | "gujarati" | "tamil" | "telugu" | "arabic";
+
+const SCRIPT_RANGES: [Script, RegExp][] = [
+  ["devanagari", /[\u0900-\u097F]/],
+  ["bengali", /[\u0980-\u09FF]/],
+  ["gurmukhi", /[\u0A00-\u0A7F]/],
+  ["gujarati", /[\u0A80-\u0AFF]/],
+  ["tamil", /[\u0B80-\u0BFF]/],
+  ["telugu", /[\u0C00-\u0C7F]/],
+  ["arabic", /[\u0600-\u06FF\u0750-\u077F\uFB50-\uFDFF\uFE70-\uFEFF]/],
+  ["latin", /[a-z]/],
+];
+
+// Scripts that identify a single supported language
+const SCRIPT_LANGUAGE: Partial<Record<Script, DetectedLanguage>> = {
+  bengali: "bengali",
+  gurmukhi: "punjabi",
+  gujarati: "gujarati",
+  tamil: "tamil",
+  telugu: "telugu",
+  arabic: "urdu",
+};
+
+// Weights reflect how specific a word is: "hai" is unmistakably Hindi, while
+// "na", "ya" and "par" are also English or too short to trust
+const HINGLISH_WORDS: Record<string, number> = {
+  hai: 1, hain: 1, kya: 1, nahi: 1, nahin: 1, mein: 1, kaise: 1, kyun: 1, kyon: 1, aap: 1, mujhe: 1,
+  tum: 0.8, hum: 0.8, batao: 1, bataiye: 1, kitna: 1, kitne: 1, kitni: 1, accha: 1, acha: 1, theek: 1,
+  yaar: 1, bhai: 0.8, chahiye: 1, raha: 1, rahi: 1, rahe: 1, gaya: 1, gayi: 1, karo: 1, kiya: 1,
+  tha: 1, thi: 1, aur: 1, bhi: 0.8, sab: 0.6, yeh: 1, ye: 0.6, woh: 1, wo: 0.6, kuch: 1, kab: 1,
+  kahan: 1, abhi: 1, phir: 1, lekin: 1, magar: 1, toh: 1, haan: 1, arre: 1, dost: 0.8, aaj: 1,
+  kal: 0.6, bahut: 1, sirf: 1, baare: 1, likha: 1, samjhao: 1, sunao: 1, kaisa: 1, kaisi: 1,
+  wala: 1, wali: 1, hoga: 1, hogi: 1, diya: 0.8, liya: 1, pata: 0.8, matlab: 1, ka: 0.6, ki: 0.6,
+  ke: 0.6, ko: 0.6, se: 0.5, kar: 0.5, ho: 0.4, ji: 0.4, main: 0.3, par: 0.3, na: 0.3, ya: 0.3,
+};
+
+const ENGLISH_WORDS: Record<string, number> = {
+  the: 1, is: 1, are: 1, was: 1, were: 1, what: 1, which: 1, who: 1, when: 1, where: 1, why: 1,
+  how: 1, of: 1, and: 1, to: 1, in: 0.8, on: 0.8, for: 1, with: 1, this: 1, that: 1, these: 1,
+  those: 1, you: 1, your: 1, me: 0.8, my: 1, it: 1, its: 1, can: 1, could: 1, would: 1, should: 1,
+  please: 1, tell: 1, about: 1, does: 1, do: 0.8, did: 1, an: 1, a: 0.6, be: 0.8, from: 1, at: 0.8,
+  by: 0.8, or: 0.8, not: 1, no: 0.6, give: 1, show: 1, explain: 1, summarize: 1, today: 0.8,
+  latest: 0.8, price: 0.6, much: 1, many: 1, there: 1, have: 1, has: 1, will: 1, i: 0.8, we: 0.8,
+};
+
+const HINDI_WORDS: Record<string, number> = {
+  "है": 1, "हैं": 1, "का": 0.8, "की": 0.8, "के": 0.8, "में": 1, "और": 1, "क्या": 1, "नहीं": 1,
+  "मुझे": 1, "आप": 0.8, "हम": 0.6, "था": 0.8, "थे": 0.6, "थी": 0.8, "को": 0.5, "से": 1, "पर": 0.7,
+  "यह": 1, "वह": 1, "कैसे": 1, "कितना": 1, "कितनी": 1, "लिए": 1, "बताओ": 1, "बताइए": 1,
+  "बताएं": 1, "रहा": 1, "रही": 1, "गया": 1, "चाहिए": 1, "हुआ": 1, "कौन": 1, "कहाँ": 1,
+};
+
+const MARATHI_WORDS: Record<string, number> = {
+  "आहे": 1, "आहेत": 1, "नाही": 1, "नाहीत": 1, "आणि": 1, "काय": 0.8, "कसे": 0.8, "कसा": 0.8,
+  "कशी": 0.8, "मला": 1, "तुम्ही": 1, "आम्ही": 1, "झाले": 1, "झाला": 1, "मध्ये": 1, "साठी": 1,
+  "पण": 0.6, "कोण": 0.8, "कुठे": 1, "किती": 0.8, "सांगा": 1, "करा": 0.7, "च्या": 1, "चा": 1,
+  "ची": 1, "चे": 0.8, "होते": 0.3, "ला": 0.3, "हे": 0.3, "ते": 0.3,
+};
+
+// Nepali is not supported; its function words count against both Hindi and
+// Marathi so Nepali text comes back with low confidence instead of as Hindi
+const NEPALI_WORDS: Record<string, number> = {
+  "छ": 1, "छन्": 1, "हुन्छ": 1, "भयो": 1, "लाई": 1, "तपाईं": 1, "गर्नुहोस्": 1, "हुनुहुन्छ": 1,
+  "मा": 0.5, "र": 0.5,
+};
+
+// ळ is common in Marathi and absent from standard Hindi
+const MARATHI_LETTER = "ळ";
+
+// A second language above this share marks the message as mixed
+const MIXED_SHARE = 0.2;
+// Messages with less evidence than this (in words) get proportionally lower confidence
+const MIN_EVIDENCE = 3;
+
+function scriptOf(word: string): Script | null {
+  for (const [script, pattern] of SCRIPT_RANGES) {
+    if (pattern.test(word)) return script;
+  }
+  return null;
+}
+
+function words(text: string): string[] {
+  return text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^\p{L}\p{M}]+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+function emptyScores(): Record<DetectedLanguage, number> {
+  return {
+    english: 0, hindi: 0, hinglish: 0, urdu: 0, bengali: 0, tamil: 0, telugu: 0, marathi: 0, gujarati: 0, punjabi: 0,
+  };
+}
+
+// Splits `count` unknown words between candidates in proportion to the known
+// words' evidence, defaulting to the first candidate
+function distribute(count: number, evidence: number[]): number[] {
+  const total = evidence.reduce((sum, value) => sum + value, 0);
+  if (total === 0) return evidence.map((_, i) => (i === 0 ? count : 0));
+  return evidence.map((value) => count * value / total);
+}
+
+export function detectLanguage(text: string): LanguageDetection {
+  const scores = emptyScores();
+  let unknownLatin = 0;
+  let unknownDevanagari = 0;
+  let unsupported = 0;
+
+  words(text).forEach((word) => {
+    const script = scriptOf(word);
+    if (!script) return;
+
+    const fixed = SCRIPT_LANGUAGE[script];
+    if (fixed) {
+      scores[fixed] += 1;
+    } else if (script === "latin") {
+      const hinglish = HINGLISH_WORDS[word] ?? 0;
+      const english = ENGLISH_WORDS[word] ?? 0;
+      if (hinglish + english === 0) unknownLatin++;
+      scores.hinglish += hinglish;
+      scores.english += english;
+    } else {
+      const hindi = HINDI_WORDS[word] ?? 0;
+      const marathi = (MARATHI_WORDS[word] ?? 0) || (word.includes(MARATHI_LETTER) ? 1 : 0);
+      const nepali = NEPALI_WORDS[word] ?? 0;
+      if (hindi + marathi + nepali === 0) unknownDevanagari++;
+      scores.hindi += hindi;
+      scores.marathi += marathi;
+      unsupported += nepali;
+    }
+  });
+
+  const [english, hinglish] = distribute(unknownLatin, [scores.english, scores.hinglish]);
+  scores.english += english;
+  scores.hinglish += hinglish;
+  const [hindi, marathi, nepali] = distribute(unknownDevanagari, [scores.hindi, scores.marathi, unsupported]);
+  scores.hindi += hindi;
+  scores.marathi += marathi;
+  unsupported += nepali;
+
+  const total = DETECTED_LANGUAGES.reduce((sum, language) => sum + scores[language], 0) + unsupported;
+  if (total === 0) {
+    return { language: "english", confidence: 0, scores, mixed: false };
+  }
+
+  const ranked = [...DETECTED_LANGUAGES].sort((a, b) => scores[b] - scores[a]);
+  const [best, second] = ranked;
+  const shares = Object.fromEntries(
+    DETECTED_LANGUAGES.map((language) => [language, Math.round(scores[language] / total * 100) / 100]),
+  ) as Record<DetectedLanguage, number>;
+  const evidence = Math.min(total / MIN_EVIDENCE, 1);
+
+  return {
+    language: best,
+    confidence: Math.round(shares[best] * evidence * 100) / 100,
+    scores: shares,
+    mixed: scores[second] / total >= MIXED_SHARE,
+  };
+}
@@ -0,0 +1,137 @@
+// Response languages. One entry per language drives the Settings and Chat
+// language pickers, the reply instruction hybrid-chat gives the model, voice
+// input's speech-recognition locale and the text direction of messages.
+// Codes are stored in user preferences, so existing codes must not change.
+// No runtime-specific imports, so the edge functions and the client share it.
+
+export type LanguageCode =
+  | "english"
+  | "hindi"
+  | "hinglish"
+  | "urdu"
+  | "bengali"
+  | "tamil"
+  | "telugu"
+  | "marathi"
+  | "gujarati"
+  | "punjabi";
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface LanguageDefinition {
+  code: LanguageCode;
+  label: string;
+  nativeLabel: string;
+  script: string;
+  // Appended to the system prompt when answering in this language
+  instruction: string;
+  // BCP 47 tag for the Web Speech API
+  speechLocale: string;
+  direction: TextDirection;
+}
+
+export const LANGUAGES: LanguageDefinition[] = [
+  {
+    code: "english",
+    label: "English",
+    nativeLabel: "English",
+    script: "Latin",
+    instruction: "Respond in English.",
+    speechLocale: "en-IN",
+    direction: "ltr",
+  },
+  {
+    code: "hindi",
+    label: "Hindi",
+    nativeLabel: "हिंदी",
+    script: "Devanagari",
+    instruction: "हिंदी में जवाब दें। (Respond in Hindi using Devanagari script.)",
+    speechLocale: "hi-IN",
+    direction: "ltr",
+  },
+  {
+    code: "hinglish",
+    label: "Hinglish",
+    nativeLabel: "Hinglish",
+    script: "Latin",
+    instruction: "Hinglish mein jawab do - Roman script mein Hindi/English mix use karo. (Respond in Hinglish using Roman script with Hindi-English mix.)",
+    // Browsers transcribe Hindi speech in Devanagari, so Hinglish uses the
+    // Indian English recognizer to keep Roman script
+    speechLocale: "en-IN",
+    direction: "ltr",
+  },
+  {
+    code: "urdu",
+    label: "Urdu",
+    nativeLabel: "اردو",
+    script: "Arabic",
+    instruction: "اردو میں جواب دیں۔ (Respond in Urdu using Arabic script.)",
+    speechLocale: "ur-PK",
+    direction: "rtl",
+  },
+  {
+    code: "bengali",
+    label: "Bengali",
+    nativeLabel: "বাংলা",
+    script: "Bengali",
+    instruction: "বাংলায় উত্তর দিন। (Respond in Bengali using Bengali script.)",
+    speechLocale: "bn-IN",
+    direction: "ltr",
+  },
+  {
+    code: "tamil",
+    label: "Tamil",
+    nativeLabel: "தமிழ்",
+    script: "Tamil",
+    instruction: "தமிழில் பதிலளிக்கவும். (Respond in Tamil using Tamil script.)",
+    speechLocale: "ta-IN",
+    direction: "ltr",
+  },
+  {
+    code: "telugu",
+    label: "Telugu",
+    nativeLabel: "తెలుగు",
+    script: "Telugu",
+    instruction: "తెలుగులో సమాధానం ఇవ్వండి. (Respond in Telugu using Telugu script.)",
+    speechLocale: "te-IN",
+    direction: "ltr",
+  },
+  {
+    code: "marathi",
+    label: "Marathi",
+    nativeLabel: "मराठी",
+    script: "Devanagari",
+    instruction: "मराठीत उत्तर द्या. (Respond in Marathi using Devanagari script.)",
+    speechLocale: "mr-IN",
+    direction: "ltr",
+  },
+  {
+    code: "gujarati",
+    label: "Gujarati",
+    nativeLabel: "ગુજરાતી",
+    script: "Gujarati",
+    instruction: "ગુજરાતીમાં જવાબ આપો. (Respond in Gujarati using Gujarati script.)",
+    speechLocale: "gu-IN",
+    direction: "ltr",
+  },
+  {
+    code: "punjabi",
+    label: "Punjabi",
+    nativeLabel: "ਪੰਜਾਬੀ",
+    script: "Gurmukhi",
+    instruction: "ਪੰਜਾਬੀ ਵਿੱਚ ਜਵਾਬ ਦਿਓ। (Respond in Punjabi using Gurmukhi script.)",
+    speechLocale: "pa-IN",
+    direction: "ltr",
+  },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = "english";
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some((language) => language.code === value);
+}
+
+export function getLanguage(code: string | null | undefined): LanguageDefinition {
+  return LANGUAGES.find((language) => language.code === code)
+    ?? LANGUAGES.find((language) => language.code === DEFAULT_LANGUAGE)!;
+}
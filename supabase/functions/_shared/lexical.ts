@@ -0,0 +1,39 @@
+// Token overlap between a query and a passage: the lexical reranker's score in
+// hybrid-chat, and the tokenizer quote verification shares with it. No
+// runtime-specific imports, so vitest can test it.
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    // Keep letters, combining marks (Devanagari/Arabic vowel signs) and digits
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, " ")
+    .split(" ")
+    .filter(Boolean);
+}
+
+// Share of distinct query terms in the passage, plus a bonus for query
+// bigrams appearing as phrases; in [0, 1]
+export function lexicalScore(query: string, passage: string): number {
+  const sequence = tokenize(query);
+  const queryTokens = [...new Set(sequence)];
+  if (queryTokens.length === 0) return 0;
+  // Adjacent pairs in the query as written
+  const bigrams = [...new Set(sequence.slice(1).map((token, i) => `${sequence[i]} ${token}`))];
+
+  const passageTokens = tokenize(passage);
+  const present = new Set(passageTokens);
+  const joined = ` ${passageTokens.join(" ")} `;
+
+  const coverage = queryTokens.filter((t) => present.has(t)).length / queryTokens.length;
+  const phrases = bigrams.length > 0
+    ? bigrams.filter((b) => joined.includes(` ${b} `)).length / bigrams.length
+    : 0;
+  return Math.min(coverage * 0.8 + phrases * 0.2, 1);
+}
+
+// A query and its translations are scored separately and the best counts, so
+// each added language cannot dilute a match in another
+export function bestLexicalScore(queries: string[], passage: string): number {
+  return Math.max(0, ...queries.map((query) => lexicalScore(query, passage)));
+}
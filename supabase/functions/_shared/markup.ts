@@ -0,0 +1,165 @@
+// Converts Markdown and HTML into plain indexable text. Top-level headings
+// (# / ## and <h1> / <h2>) become section markers so citations can name the
+// part of the document a passage is from; formatting syntax, scripts, styling
+// and page chrome (menus, sidebars, forms) are dropped. No runtime-specific
+// imports, so vitest can test it.
+import { formatSections, type SectionText } from "./chunking.ts";
+
+// The named entities documents commonly use; accented letters are
+// case-sensitive (&Eacute; vs &eacute;), the rest are matched in any case
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", ensp: " ", emsp: " ", thinsp: " ", shy: "",
+  ndash: "–", mdash: "—", minus: "−", hellip: "…", bull: "•", middot: "·", prime: "′", Prime: "″",
+  lsquo: "‘", rsquo: "’", sbquo: "‚", ldquo: "“", rdquo: "”", bdquo: "„", laquo: "«", raquo: "»",
+  lsaquo: "‹", rsaquo: "›", dagger: "†", Dagger: "‡", sect: "§", para: "¶", iexcl: "¡", iquest: "¿",
+  copy: "©", reg: "®", trade: "™", deg: "°", plusmn: "±", times: "×", divide: "÷", micro: "µ",
+  permil: "‰", frac14: "¼", frac12: "½", frac34: "¾", sup1: "¹", sup2: "²", sup3: "³",
+  le: "≤", ge: "≥", ne: "≠", asymp: "≈", infin: "∞", larr: "←", rarr: "→", uarr: "↑", darr: "↓", harr: "↔",
+  cent: "¢", pound: "£", yen: "¥", euro: "€", curren: "¤", rupee: "₹",
+  aacute: "á", Aacute: "Á", agrave: "à", Agrave: "À", acirc: "â", Acirc: "Â", auml: "ä", Auml: "Ä",
+  atilde: "ã", Atilde: "Ã", aring: "å", Aring: "Å", aelig: "æ", AElig: "Æ", ccedil: "ç", Ccedil: "Ç",
+  eacute: "é", Eacute: "É", egrave: "è", Egrave: "È", ecirc: "ê", Ecirc: "Ê", euml: "ë", Euml: "Ë",
+  iacute: "í", Iacute: "Í", igrave: "ì", Igrave: "Ì", icirc: "î", Icirc: "Î", iuml: "ï", Iuml: "Ï",
+  ntilde: "ñ", Ntilde: "Ñ", oacute: "ó", Oacute: "Ó", ograve: "ò", Ograve: "Ò", ocirc: "ô", Ocirc: "Ô",
+  ouml: "ö", Ouml: "Ö", otilde: "õ", Otilde: "Õ", oslash: "ø", Oslash: "Ø", szlig: "ß",
+  uacute: "ú", Uacute: "Ú", ugrave: "ù", Ugrave: "Ù", ucirc: "û", Ucirc: "Û", uuml: "ü", Uuml: "Ü",
+  yacute: "ý", Yacute: "Ý", yuml: "ÿ",
+};
+
+// Malformed entities, including numeric ones outside Unicode, are left as written
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z][a-z0-9]*);/gi, (entity, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1] === "x" || name[1] === "X" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      const valid = code > 0 && code <= 0x10ffff && (code < 0xd800 || code > 0xdfff);
+      return valid ? String.fromCodePoint(code) : entity;
+    }
+    return NAMED_ENTITIES[name] ?? NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+function collapse(text: string): string {
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// Splits text into sections at heading lines recognised by `heading`
+function sectionize(lines: string[], heading: (line: string) => string | null): SectionText[] {
+  const sections: SectionText[] = [{ label: null, text: "" }];
+  lines.forEach((line) => {
+    const label = heading(line);
+    if (label) {
+      sections.push({ label, text: "" });
+    } else {
+      sections[sections.length - 1].text += `${line}\n`;
+    }
+  });
+  return sections.map((section) => ({ ...section, text: collapse(section.text) }));
+}
+
+function stripInlineMarkdown(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/<[^>]+>/g, "")
+    .replace(/\*\*(.+?)\*\*/g, "$1")
+    .replace(/\*(\S.*?)\*/g, "$1")
+    // Underscores only at word boundaries, so snake_case names survive
+    .replace(/(^|\W)__?(\S.*?)__?(?!\w)/g, "$1$2")
+    .replace(/~~(.+?)~~/g, "$1")
+    .replace(/`([^`]+)`/g, "$1");
+}
+
+export function markdownToText(markdown: string): string {
+  const body = markdown
+    .replace(/\r\n/g, "\n")
+    // YAML front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, "");
+
+  const lines: string[] = [];
+  let inFence = false;
+  body.split("\n").forEach((line) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      lines.push(line);
+      return;
+    }
+    // Table separator rows (| --- | :-: |)
+    if (/^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(line)) return;
+    // Horizontal rules
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) return;
+
+    let text = line
+      .replace(/^\s*>\s?/, "")
+      .replace(/^(\s*)[*+]\s+/, "$1- ");
+    if (/^\s*\|.*\|\s*$/.test(text)) {
+      text = text.trim().replace(/^\||\|$/g, "").split("|").map((cell) => cell.trim()).join(" | ");
+    }
+    lines.push(decodeEntities(stripInlineMarkdown(text)));
+  });
+
+  const sections = sectionize(lines, (line) => {
+    const match = line.match(/^#{1,2}\s+(.+?)\s*#*\s*$/);
+    return match ? match[1].trim() : null;
+  });
+  // Lower-level headings stay in the text without their markers
+  return formatSections(sections.map((section) => ({
+    ...section,
+    text: section.text.replace(/^#{3,6}\s+(.+?)\s*#*\s*$/gm, "$1"),
+  })));
+}
+
+const HEADING_MARK = "\u0000H:";
+// A <main> or <article> with less text than this is a fragment, not the page
+const MIN_MAIN_CONTENT_CHARS = 200;
+
+// The page's <title>, preferring the Open Graph title sites set for sharing
+export function htmlTitle(html: string): string | null {
+  const title = html.match(/<meta\b[^>]*property=["']og:title["'][^>]*content=["']([^"']*)["']/i)?.[1]
+    ?? html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+    ?? "";
+  const text = decodeEntities(title).replace(/\s+/g, " ").trim();
+  return text || null;
+}
+
+// Only the page's main content when it marks one, so site headers, menus and
+// sidebars around it are left out
+function mainContent(html: string): string {
+  for (const tag of ["main", "article"]) {
+    const match = html.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*)<\\/${tag}>`, "i"));
+    if (match && match[1].replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim().length >= MIN_MAIN_CONTENT_CHARS) {
+      return match[1];
+    }
+  }
+  return html;
+}
+
+export function htmlToText(html: string): string {
+  const text = mainContent(html.replace(/<!--[\s\S]*?-->/g, ""))
+    .replace(/<(script|style|noscript|template|svg|head|nav|footer|aside|form|iframe|button|select)\b[\s\S]*?<\/\1>/gi, "")
+    // Source whitespace is insignificant; line breaks come from the markup
+    .replace(/\s+/g, " ")
+    // Headings become marker lines so they can be split into sections below
+    .replace(/<h([12])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, __, inner: string) => {
+      const label = collapse(inner.replace(/<[^>]+>/g, " ")).replace(/\n/g, " ");
+      return label ? `\n${HEADING_MARK}${label}\n` : "\n";
+    })
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/t[dh]>\s*(?=<t[dh]\b)/gi, " | ")
+    .replace(/<\/(p|h[3-6]|ul|ol|table|blockquote|pre|figure)>/gi, "\n\n")
+    .replace(/<\/(div|section|article|header|main|aside|tr|dt|dd)>/gi, "\n")
+    .replace(/<[^>]+>/g, "");
+
+  const sections = sectionize(
+    decodeEntities(text).split("\n"),
+    (line) => line.startsWith(HEADING_MARK) ? line.slice(HEADING_MARK.length).trim() : null,
+  );
+  return formatSections(sections);
+}
@@ -0,0 +1,166 @@
+// Helpers for segmenting long audio/video so each transcription request stays
+// within the gateway's request and output limits.
+
+const TIMESTAMP_PATTERN = /\[(\d{1,3}):([0-5]\d)\]/g;
+
+// [MM:SS] with unbounded minutes, so timestamps stay continuous past an hour
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const minutes = Math.floor(seconds / 60);
+  return `${String(minutes).padStart(2, "0")}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function parseTimestamp(value: string): number | null {
+  const match = value.match(/^\[?(\d{1,3}):([0-5]\d)\]?$/);
+  return match ? parseInt(match[1], 10) * 60 + parseInt(match[2], 10) : null;
+}
+
+// Shifts every [MM:SS] in a clip transcript by the clip's offset in the full media
+export function shiftTimestamps(text: string, offsetSeconds: number): string {
+  if (offsetSeconds <= 0) return text;
+  return text.replace(TIMESTAMP_PATTERN, (_, mm: string, ss: string) =>
+    `[${formatTimestamp(parseInt(mm, 10) * 60 + parseInt(ss, 10) + offsetSeconds)}]`
+  );
+}
+
+export interface TimestampMark {
+  offset: number;
+  seconds: number;
+}
+
+export function findTimestamps(text: string): TimestampMark[] {
+  return [...text.matchAll(TIMESTAMP_PATTERN)].map((match) => ({
+    offset: match.index!,
+    seconds: parseInt(match[1], 10) * 60 + parseInt(match[2], 10),
+  }));
+}
+
+// ---------------------------------------------------------------------------
+// WAV: PCM can be cut on any frame boundary and re-wrapped with a new header
+
+interface WavInfo {
+  numChannels: number;
+  sampleRate: number;
+  byteRate: number;
+  blockAlign: number;
+  bitsPerSample: number;
+  dataOffset: number;
+  dataSize: number;
+}
+
+function readTag(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + 4));
+}
+
+export function parseWav(bytes: Uint8Array): WavInfo | null {
+  if (bytes.length < 12 || readTag(bytes, 0) !== "RIFF" || readTag(bytes, 8) !== "WAVE") {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  let fmt: Omit<WavInfo, "dataOffset" | "dataSize"> | null = null;
+
+  while (offset + 8 <= bytes.length) {
+    const tag = readTag(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+
+    if (tag === "fmt ") {
+      fmt = {
+        numChannels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        byteRate: view.getUint32(offset + 16, true),
+        blockAlign: view.getUint16(offset + 20, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (tag === "data" && fmt) {
+      const dataSize = Math.min(size, bytes.length - offset - 8);
+      return { ...fmt, dataOffset: offset + 8, dataSize };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+export function wavDuration(info: WavInfo): number {
+  return info.byteRate > 0 ? info.dataSize / info.byteRate : 0;
+}
+
+export function sliceWav(bytes: Uint8Array, info: WavInfo, startSeconds: number, endSeconds: number): Uint8Array {
+  const align = (value: number) => Math.floor(value / info.blockAlign) * info.blockAlign;
+  const start = Math.min(align(startSeconds * info.byteRate), info.dataSize);
+  const end = Math.min(align(endSeconds * info.byteRate), info.dataSize);
+  const pcm = bytes.subarray(info.dataOffset + start, info.dataOffset + end);
+
+  const out = new Uint8Array(44 + pcm.length);
+  const view = new DataView(out.buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) out[offset + i] = tag.charCodeAt(i);
+  };
+
+  writeTag(0, "RIFF");
+  view.setUint32(4, 36 + pcm.length, true);
+  writeTag(8, "WAVE");
+  writeTag(12, "fmt ");
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, info.numChannels, true);
+  view.setUint32(24, info.sampleRate, true);
+  view.setUint32(28, info.byteRate, true);
+  view.setUint16(32, info.blockAlign, true);
+  view.setUint16(34, info.bitsPerSample, true);
+  writeTag(36, "data");
+  view.setUint32(40, pcm.length, true);
+  out.set(pcm, 44);
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// MP3: frames decode independently, so cuts are snapped to the next frame sync.
+// Offsets are proportional to bytes, which is exact for CBR and close for VBR.
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+
+function id3Size(bytes: Uint8Array): number {
+  if (bytes.length < 10 || readTag(bytes, 0).slice(0, 3) !== "ID3") return 0;
+  return 10 + ((bytes[6] & 0x7f) << 21 | (bytes[7] & 0x7f) << 14 | (bytes[8] & 0x7f) << 7 | (bytes[9] & 0x7f));
+}
+
+function frameBitrate(bytes: Uint8Array, offset: number): number | null {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) {
+    return null;
+  }
+  const version = (bytes[offset + 1] >> 3) & 0x03; // 3 = MPEG1, 2 = MPEG2, 0 = MPEG2.5
+  const layer = (bytes[offset + 1] >> 1) & 0x03; // 1 = Layer III
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+    return null;
+  }
+  return (version === 3 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[bitrateIndex];
+}
+
+function nextFrame(bytes: Uint8Array, from: number): number {
+  for (let i = Math.max(from, 0); i < bytes.length - 4; i++) {
+    if (frameBitrate(bytes, i) !== null) return i;
+  }
+  return bytes.length;
+}
+
+export function mp3Duration(bytes: Uint8Array): number | null {
+  const first = nextFrame(bytes, id3Size(bytes));
+  const kbps = frameBitrate(bytes, first);
+  return kbps ? ((bytes.length - first) * 8) / (kbps * 1000) : null;
+}
+
+export function sliceMp3(bytes: Uint8Array, durationSeconds: number, startSeconds: number, endSeconds: number): Uint8Array {
+  const audioStart = nextFrame(bytes, id3Size(bytes));
+  const audioLength = bytes.length - audioStart;
+  const toByte = (seconds: number) =>
+    audioStart + Math.floor((Math.min(seconds, durationSeconds) / durationSeconds) * audioLength);
+
+  const start = startSeconds <= 0 ? audioStart : nextFrame(bytes, toByte(startSeconds));
+  const end = endSeconds >= durationSeconds ? bytes.length : nextFrame(bytes, toByte(endSeconds));
+  return bytes.subarray(start, end);
+}
@@ -0,0 +1,88 @@
+// Which IP addresses server-side fetches may reach. fetch-url resolves every
+// host it is about to contact and refuses any that lands on one of these, so a
+// user-supplied URL cannot reach the platform's own network. No runtime-specific
+// imports; name resolution itself happens in the function.
+
+function isPrivateIPv4(address: string): boolean {
+  const parts = address.split(".").map((part) => (/^\d{1,3}$/.test(part) ? Number(part) : NaN));
+  // Anything that is not a plain dotted quad is refused rather than guessed at
+  if (parts.length !== 4 || parts.some((part) => !(part >= 0 && part <= 255))) return true;
+
+  const [a, b] = parts;
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    // Multicast and reserved
+    a >= 224
+  );
+}
+
+// Eight 16-bit groups, or null when the text is not an IPv6 address. A dotted
+// IPv4 tail (::ffff:127.0.0.1) becomes the last two groups.
+function ipv6Groups(address: string): number[] | null {
+  let text = address.toLowerCase().split("%")[0];
+
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const octets = dotted[2].split(".").map(Number);
+    if (octets.some((octet) => octet > 255)) return null;
+    text = `${dotted[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+  const parse = (half: string) => (half ? half.split(":") : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function embeddedIPv4(groups: number[]): string {
+  return [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(".");
+}
+
+function isPrivateIPv6(address: string): boolean {
+  const groups = ipv6Groups(address);
+  if (!groups) return true;
+
+  const leadingZeros = groups.findIndex((group) => group !== 0);
+  // :: and ::1
+  if (leadingZeros === -1 || (leadingZeros === 7 && groups[7] === 1)) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) carry an IPv4 address
+  if (leadingZeros >= 5 && (groups[5] === 0xffff || groups[5] === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups));
+  }
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isPrivateIPv4(embeddedIPv4(groups));
+  }
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00    // multicast
+  );
+}
+
+export function isIpAddress(host: string): boolean {
+  const bare = host.replace(/^\[|\]$/g, "");
+  return /^\d+\.\d+\.\d+\.\d+$/.test(bare) || bare.includes(":");
+}
+
+// Loopback, private, link-local, shared, multicast and reserved addresses,
+// including IPv4 addresses wrapped in IPv6. Text that is not a valid address
+// counts as private.
+export function isPrivateAddress(address: string): boolean {
+  const bare = address.replace(/^\[|\]$/g, "");
+  return bare.includes(":") ? isPrivateIPv6(bare) : isPrivateIPv4(bare);
+}
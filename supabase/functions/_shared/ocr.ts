@@ -0,0 +1,127 @@
+import { encodeBase64 } from "https://deno.land/std@0.224.0/encoding/base64.ts";
+
+// Pluggable OCR for image uploads. The gateway engine uses the multimodal model
+// (text + visual description); the tesseract engine runs locally for offline testing.
+
+export interface OcrResult {
+  text: string;
+  description: string;
+  engine: string;
+}
+
+export interface OcrEngine {
+  name: string;
+  recognize(bytes: Uint8Array, mimeType: string): Promise<OcrResult>;
+}
+
+export type OcrEngineName = "gateway" | "tesseract";
+
+const OCR_PROMPT = `You are an OCR and image analysis service. Read the attached image carefully.
+
+INSTRUCTIONS:
+1. Transcribe ALL visible text exactly as written, preserving line breaks, numbers, currency symbols and table rows
+2. Keep the original language and script of the text (do not translate)
+3. Then describe the visual content: what kind of image it is (e.g. bank statement, receipt, chart, scanned page, photo), key figures, and anything a reader would need to answer questions about it
+4. If there is no text, write NONE under EXTRACTED TEXT
+
+OUTPUT FORMAT:
+---
+EXTRACTED TEXT:
+[All text in the image]
+
+---
+VISUAL DESCRIPTION:
+[Description of the image]
+`;
+
+function parseOcrResponse(output: string): { text: string; description: string } {
+  const textMatch = output.match(/EXTRACTED TEXT:\s*([\s\S]*?)(?:\n-{3,}\s*\n|VISUAL DESCRIPTION:|$)/i);
+  const descriptionMatch = output.match(/VISUAL DESCRIPTION:\s*([\s\S]*)$/i);
+
+  const text = textMatch?.[1].trim() ?? "";
+  return {
+    text: /^none$/i.test(text) ? "" : text,
+    description: descriptionMatch?.[1].trim() ?? (textMatch ? "" : output.trim()),
+  };
+}
+
+export function createGatewayOcrEngine(apiKey: string): OcrEngine {
+  return {
+    name: "gateway",
+    async recognize(bytes, mimeType) {
+      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "google/gemini-2.5-flash",
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: OCR_PROMPT },
+                {
+                  type: "image_url",
+                  image_url: { url: `data:${mimeType};base64,${encodeBase64(bytes)}` },
+                },
+              ],
+            },
+          ],
+          max_tokens: 4000,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("OCR API error:", response.status, errorText);
+        throw new Error(`OCR failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const output = result.choices?.[0]?.message?.content || "";
+      return { ...parseOcrResponse(output), engine: "gateway" };
+    },
+  };
+}
+
+export function createTesseractOcrEngine(languages = "eng+hin"): OcrEngine {
+  return {
+    name: "tesseract",
+    async recognize(bytes) {
+      // Loaded lazily so deployments using the gateway never pull in the wasm build
+      const { createWorker } = await import("npm:tesseract.js@7");
+      const worker = await createWorker(languages);
+      try {
+        const { data } = await worker.recognize(bytes);
+        return { text: data.text.trim(), description: "", engine: "tesseract" };
+      } finally {
+        await worker.terminate();
+      }
+    },
+  };
+}
+
+export function createOcrEngine(name: string | undefined, apiKey: string): OcrEngine {
+  switch (name as OcrEngineName | undefined) {
+    case "tesseract":
+      return createTesseractOcrEngine();
+    case "gateway":
+    case undefined:
+      return createGatewayOcrEngine(apiKey);
+    default:
+      throw new Error(`Unknown OCR engine: ${name}`);
+  }
+}
+
+export function formatOcrContent(result: OcrResult): string {
+  const sections: string[] = [];
+  if (result.text) {
+    sections.push(`[Image Text]\n${result.text}`);
+  }
+  if (result.description) {
+    sections.push(`[Visual Description]\n${result.description}`);
+  }
+  return sections.join("\n\n");
+}
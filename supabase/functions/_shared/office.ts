@@ -0,0 +1,185 @@
+import { strFromU8, unzipSync } from "https://esm.sh/fflate@0.8.2";
+import { formatSections, type SectionText } from "./chunking.ts";
+import { decodeEntities } from "./markup.ts";
+import { columnIndex, type Sheet, type SheetRow } from "./spreadsheet.ts";
+
+// Text extraction for Office Open XML files (DOCX, PPTX, XLSX), which are zip
+// archives of XML parts. Only the text-bearing parts are read: Word headings
+// become sections, each slide (with its speaker notes) is a section, and
+// worksheets are read as cells for the spreadsheet formatter and table store.
+
+type Archive = Record<string, Uint8Array>;
+
+function openArchive(bytes: Uint8Array): Archive {
+  try {
+    return unzipSync(bytes);
+  } catch (e) {
+    throw new Error(`Not a valid Office file: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+function readPart(archive: Archive, path: string): string | null {
+  const part = archive[path];
+  return part ? strFromU8(part) : null;
+}
+
+// Concatenated text of every <tag>...</tag> run, e.g. w:t or a:t
+function runText(xml: string, tag: string): string {
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, "g");
+  return decodeEntities([...xml.matchAll(pattern)].map((match) => match[1]).join(""));
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeEntities(match[1]) : null;
+}
+
+// Targets of a part's relationships by id, resolved against the part's folder
+function readRelationships(archive: Archive, partPath: string): Map<string, string> {
+  const folder = partPath.slice(0, partPath.lastIndexOf("/") + 1);
+  const file = partPath.slice(partPath.lastIndexOf("/") + 1);
+  const xml = readPart(archive, `${folder}_rels/${file}.rels`) ?? "";
+
+  const relationships = new Map<string, string>();
+  [...xml.matchAll(/<Relationship\b[^>]*>/g)].forEach(([tag]) => {
+    const id = attribute(tag, "Id");
+    const target = attribute(tag, "Target");
+    if (!id || !target) return;
+
+    const parts = (target.startsWith("/") ? target.slice(1) : folder + target).split("/");
+    const resolved: string[] = [];
+    parts.forEach((part) => {
+      if (part === "..") resolved.pop();
+      else if (part !== ".") resolved.push(part);
+    });
+    relationships.set(id, resolved.join("/"));
+  });
+  return relationships;
+}
+
+function wordParagraph(xml: string): string {
+  return decodeEntities(
+    [...xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>/g)]
+      .map((match) => match[1] ?? (match[2] === "tab" ? "\t" : "\n"))
+      .join(""),
+  ).trim();
+}
+
+export function extractDocx(bytes: Uint8Array): string {
+  const archive = openArchive(bytes);
+  const xml = readPart(archive, "word/document.xml");
+  if (!xml) throw new Error("Word document has no body");
+
+  const sections: SectionText[] = [{ label: null, text: "" }];
+  const append = (line: string) => {
+    sections[sections.length - 1].text += `${line}\n`;
+  };
+
+  // Tables and paragraphs in document order; table rows become "a | b | c"
+  [...xml.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g)].forEach(([block]) => {
+    if (block.startsWith("<w:tbl>")) {
+      [...block.matchAll(/<w:tr[ >][\s\S]*?<\/w:tr>/g)].forEach(([row]) => {
+        const cells = [...row.matchAll(/<w:tc[ >][\s\S]*?<\/w:tc>/g)].map(([cell]) =>
+          [...cell.matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)].map(([p]) => wordParagraph(p)).filter(Boolean).join(" ")
+        );
+        if (cells.some(Boolean)) append(cells.join(" | "));
+      });
+      append("");
+      return;
+    }
+
+    const text = wordParagraph(block);
+    if (!text) return;
+    const style = block.match(/<w:pStyle w:val="([^"]+)"/)?.[1] ?? "";
+    if (/^(Title|Heading1|Heading2)$/i.test(style)) {
+      sections.push({ label: text.replace(/\s+/g, " "), text: "" });
+    } else {
+      append(style.toLowerCase().startsWith("list") ? `- ${text}` : text);
+      append("");
+    }
+  });
+
+  return formatSections(sections);
+}
+
+function slideParagraphs(xml: string): string[] {
+  return [...xml.matchAll(/<a:p(?:\s[^>]*)?>[\s\S]*?<\/a:p>/g)]
+    .map(([paragraph]) => runText(paragraph, "a:t").trim())
+    .filter(Boolean);
+}
+
+export function extractPptx(bytes: Uint8Array): string {
+  const archive = openArchive(bytes);
+
+  // Presentation order comes from the slide list, not the part names
+  const presentation = readPart(archive, "ppt/presentation.xml") ?? "";
+  const relationships = readRelationships(archive, "ppt/presentation.xml");
+  let slidePaths = [...presentation.matchAll(/<p:sldId\b[^>]*>/g)]
+    .map(([tag]) => relationships.get(attribute(tag, "r:id") ?? ""))
+    .filter((path): path is string => !!path && !!archive[path]);
+  if (slidePaths.length === 0) {
+    slidePaths = Object.keys(archive)
+      .filter((path) => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+      .sort((a, b) => parseInt(a.match(/\d+/)![0], 10) - parseInt(b.match(/\d+/)![0], 10));
+  }
+
+  const sections = slidePaths.map((path, i) => {
+    const lines = slideParagraphs(readPart(archive, path) ?? "");
+
+    const notesPath = [...readRelationships(archive, path).values()].find((target) => target.includes("notesSlide"));
+    const notes = notesPath ? slideParagraphs(readPart(archive, notesPath) ?? "") : [];
+    // Notes repeat the slide number as their own paragraph
+    const noteLines = notes.filter((line) => !/^\d+$/.test(line));
+
+    const text = noteLines.length > 0 ? `${lines.join("\n")}\n\nSpeaker notes:\n${noteLines.join("\n")}` : lines.join("\n");
+    const title = lines[0] && lines[0].length <= 80 ? `: ${lines[0]}` : "";
+    return { label: `Slide ${i + 1}${title}`, text };
+  });
+
+  return formatSections(sections);
+}
+
+// Every worksheet's cells, in workbook order
+export function readXlsxSheets(bytes: Uint8Array): Sheet[] {
+  const archive = openArchive(bytes);
+
+  const sharedStrings = [...(readPart(archive, "xl/sharedStrings.xml") ?? "").matchAll(/<si>([\s\S]*?)<\/si>/g)]
+    .map(([, item]) => runText(item, "t"));
+
+  const workbook = readPart(archive, "xl/workbook.xml");
+  if (!workbook) throw new Error("Spreadsheet has no workbook");
+  const relationships = readRelationships(archive, "xl/workbook.xml");
+
+  return [...workbook.matchAll(/<sheet\b[^>]*>/g)].map(([tag]) => {
+    const name = attribute(tag, "name") ?? "Sheet";
+    const path = relationships.get(attribute(tag, "r:id") ?? "");
+    const xml = path ? readPart(archive, path) ?? "" : "";
+
+    // Row and cell references are optional in the format; missing ones
+    // continue from the previous row or cell
+    const rows: SheetRow[] = [];
+    [...xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)].forEach(([, rowAttributes, cellsXml = ""]) => {
+      const rowNumber = Number(attribute(rowAttributes, "r")) || (rows[rows.length - 1]?.rowNumber ?? 0) + 1;
+      const cells: SheetRow["cells"] = [];
+      let column = -1;
+
+      [...cellsXml.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)].forEach(([, cellAttributes, inner = ""]) => {
+        const letters = attribute(cellAttributes, "r")?.match(/^[A-Z]+/)?.[0];
+        column = letters ? columnIndex(letters) : column + 1;
+
+        const type = attribute(cellAttributes, "t");
+        const raw = inner.match(/<v>([^<]*)<\/v>/)?.[1];
+        let value: string;
+        if (type === "s") value = sharedStrings[Number(raw)] ?? "";
+        else if (type === "inlineStr") value = runText(inner, "t");
+        else if (type === "b") value = raw === "1" ? "TRUE" : "FALSE";
+        else value = decodeEntities(raw ?? "");
+
+        if (value) cells.push({ column, value });
+      });
+      rows.push({ rowNumber, cells });
+    });
+
+    return { name, rows };
+  });
+}
@@ -0,0 +1,38 @@
+import { extractText, getDocumentProxy } from "https://esm.sh/unpdf@0.12.1";
+import type { PageText } from "./chunking.ts";
+import { detectPdfTables, type ExtractedTable, type PositionedText } from "./tables.ts";
+
+// Extracts the text layer of a PDF, one entry per page (1-based page numbers)
+export async function extractPdfPages(bytes: Uint8Array): Promise<PageText[]> {
+  const pdf = await getDocumentProxy(bytes);
+  const { text } = await extractText(pdf, { mergePages: false });
+
+  return (text as string[]).map((pageText, i) => ({
+    pageNumber: i + 1,
+    text: pageText.replace(/[ \t]+/g, " ").replace(/\n{3,}/g, "\n\n").trim(),
+  }));
+}
+
+// Finds tables by the position of each text run; the plain text above has
+// lost the column gaps. Reads a copy since pdf.js takes over the buffer.
+export async function extractPdfTables(bytes: Uint8Array): Promise<ExtractedTable[]> {
+  const pdf = await getDocumentProxy(bytes.slice());
+  const pages = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const { items } = await page.getTextContent();
+    const positioned: PositionedText[] = (items as { str?: string; transform?: number[]; width?: number; height?: number }[])
+      .filter((item) => typeof item.str === "string" && item.transform)
+      .map((item) => ({
+        text: item.str!,
+        x: item.transform![4],
+        y: item.transform![5],
+        width: item.width ?? 0,
+        height: item.height ?? 0,
+      }));
+    pages.push({ pageNumber, items: positioned });
+  }
+
+  return detectPdfTables(pages);
+}
@@ -0,0 +1,135 @@
+// Turns spreadsheet data (CSV files and XLSX sheets) into indexable text. Each
+// sheet becomes a section and each row a "Row N | Header (B7): value" line, so
+// passages stay readable on their own and citations keep the sheet, row and
+// cell they came from. No runtime-specific imports, so vitest can test it.
+import { formatSections } from "./chunking.ts";
+
+export interface SheetCell {
+  // 0-based column index
+  column: number;
+  value: string;
+}
+
+export interface SheetRow {
+  // 1-based, as shown in spreadsheet apps
+  rowNumber: number;
+  cells: SheetCell[];
+}
+
+export interface Sheet {
+  name: string;
+  rows: SheetRow[];
+}
+
+// Keeps very large exports from flooding the index
+const MAX_ROWS_PER_SHEET = 5000;
+const MAX_CELL_CHARS = 500;
+
+export function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+export function columnIndex(letters: string): number {
+  let index = 0;
+  for (const char of letters.toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+function cleanCell(value: string): string {
+  return value.replace(/\s+/g, " ").trim().slice(0, MAX_CELL_CHARS);
+}
+
+// RFC 4180 parsing (quoted fields, doubled quotes, line breaks inside quotes).
+// The delimiter is whichever of comma, semicolon or tab the first line uses most.
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, "");
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [",", ";", "\t"]
+    .map((candidate) => ({ candidate, count: firstLine.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function csvToSheet(text: string, name: string): Sheet {
+  return {
+    name,
+    rows: parseCsv(text).map((values, i) => ({
+      rowNumber: i + 1,
+      cells: values.map((value, column) => ({ column, value })),
+    })),
+  };
+}
+
+// The first row with any values is taken as the header row
+export function formatSheet(sheet: Sheet): string {
+  const rows = sheet.rows
+    .map((row) => ({
+      ...row,
+      cells: row.cells.map((cell) => ({ ...cell, value: cleanCell(cell.value) })).filter((cell) => cell.value),
+    }))
+    .filter((row) => row.cells.length > 0);
+  if (rows.length === 0) return "";
+
+  const [header, ...body] = rows;
+  const headers = new Map(header.cells.map((cell) => [cell.column, cell.value]));
+  const lines = [`Columns: ${header.cells.map((cell) => `${cell.value} (${columnLetter(cell.column)})`).join(", ")}`];
+
+  body.slice(0, MAX_ROWS_PER_SHEET).forEach((row) => {
+    const cells = row.cells.map((cell) => {
+      const ref = `${columnLetter(cell.column)}${row.rowNumber}`;
+      const name = headers.get(cell.column);
+      return name ? `${name} (${ref}): ${cell.value}` : `(${ref}): ${cell.value}`;
+    });
+    lines.push(`Row ${row.rowNumber} | ${cells.join(" | ")}`);
+  });
+  if (body.length > MAX_ROWS_PER_SHEET) {
+    lines.push(`(${body.length - MAX_ROWS_PER_SHEET} more rows not indexed)`);
+  }
+  return lines.join("\n");
+}
+
+export function formatSpreadsheet(sheets: Sheet[]): string {
+  return formatSections(sheets.map((sheet) => ({ label: sheet.name, text: formatSheet(sheet) })));
+}
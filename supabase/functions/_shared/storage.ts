@@ -0,0 +1,93 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+// Objects in the documents bucket. Every document's file lives at
+// "<user id>/<name>", as recorded in documents.file_path.
+
+export const DOCUMENTS_BUCKET = "documents";
+
+// Storage lists at most this many objects per call
+const LIST_PAGE_SIZE = 1000;
+
+export interface StoredObject {
+  path: string;
+  size: number;
+  createdAt: string | null;
+}
+
+type ListedObject = {
+  id: string | null;
+  name: string;
+  created_at: string | null;
+  metadata: { size?: number } | null;
+};
+
+function toStoredObject(folder: string, object: ListedObject): StoredObject {
+  return {
+    path: `${folder}/${object.name}`,
+    size: Number(object.metadata?.size ?? 0),
+    createdAt: object.created_at,
+  };
+}
+
+export async function findStoredObject(supabase: SupabaseClient, filePath: string): Promise<StoredObject | null> {
+  const slash = filePath.lastIndexOf("/");
+  const folder = filePath.slice(0, slash);
+  const name = filePath.slice(slash + 1);
+
+  const { data, error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .list(folder, { search: name, limit: 100 });
+
+  if (error) {
+    throw new Error(`Failed to read ${filePath}: ${error.message}`);
+  }
+
+  const object = ((data || []) as ListedObject[]).find((item) => item.name === name);
+  return object ? toStoredObject(folder, object) : null;
+}
+
+// Files directly inside a folder; sub-folders (entries without an id) are skipped
+export async function listStoredObjects(supabase: SupabaseClient, folder: string): Promise<StoredObject[]> {
+  const objects: StoredObject[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .list(folder, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } });
+
+    if (error) {
+      throw new Error(`Failed to list ${folder || "bucket"}: ${error.message}`);
+    }
+
+    const page = (data || []) as ListedObject[];
+    page.filter((object) => object.id).forEach((object) => objects.push(toStoredObject(folder, object)));
+    if (page.length < LIST_PAGE_SIZE) return objects;
+  }
+}
+
+// Top-level folders, one per user who has uploaded
+export async function listUserFolders(supabase: SupabaseClient): Promise<string[]> {
+  const folders: string[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .list("", { limit: LIST_PAGE_SIZE, offset });
+
+    if (error) {
+      throw new Error(`Failed to list bucket: ${error.message}`);
+    }
+
+    const page = (data || []) as ListedObject[];
+    page.filter((object) => !object.id).forEach((object) => folders.push(object.name));
+    if (page.length < LIST_PAGE_SIZE) return folders;
+  }
+}
+
+export async function removeStoredObjects(supabase: SupabaseClient, paths: string[]): Promise<void> {
+  // Kept to batches the storage API accepts in one request
+  for (let i = 0; i < paths.length; i += 100) {
+    const { error } = await supabase.storage.from(DOCUMENTS_BUCKET).remove(paths.slice(i, i + 100));
+    if (error) {
+      throw new Error(`Failed to remove files: ${error.message}`);
+    }
+  }
+}
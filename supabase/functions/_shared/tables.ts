@@ -0,0 +1,405 @@
+// Tables kept as structured rows (spreadsheet sheets and tables found on PDF
+// pages), and the calculations chat runs over them. Sums, averages and filters
+// are computed here rather than by the model so figures are exact, and every
+// result names the cells it read so the answer can cite them. No
+// runtime-specific imports, so vitest can test it.
+import { columnLetter, type Sheet, type SheetRow } from "./spreadsheet.ts";
+
+export interface TableColumn {
+  // 0-based, as in SheetCell
+  index: number;
+  name: string;
+}
+
+export interface ExtractedTable {
+  // Sheet name, or "Page 3 table 1" for tables found in PDFs
+  name: string;
+  pageNumber: number | null;
+  columns: TableColumn[];
+  // Data rows only; the header row is row 1 of a PDF table
+  rows: SheetRow[];
+  // Data rows in the source table. More than rows.length when only the first
+  // MAX_TABLE_ROWS were kept, in which case calculations are partial.
+  rowCount: number;
+}
+
+// A run of text on a PDF page in PDF units (y grows upwards)
+export interface PositionedText {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PositionedPage {
+  pageNumber: number;
+  items: PositionedText[];
+}
+
+export type TableOperation = "sum" | "average" | "min" | "max" | "count" | "list";
+
+export type FilterOperator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "contains";
+
+export const TABLE_OPERATIONS: TableOperation[] = ["sum", "average", "min", "max", "count", "list"];
+
+export const FILTER_OPERATORS: FilterOperator[] = ["=", "!=", ">", ">=", "<", "<=", "contains"];
+
+export interface TableFilter {
+  column: string;
+  operator: FilterOperator;
+  value: string;
+}
+
+export interface TableQuery {
+  operation: TableOperation;
+  // Column to aggregate; count and list work on whole rows without one
+  column?: string | null;
+  filters?: TableFilter[];
+}
+
+export interface TableQueryResult {
+  operation: TableOperation;
+  column: TableColumn | null;
+  filters: TableFilter[];
+  // null for list, or when no cell in the column held a number
+  value: number | null;
+  // Rows that passed the filters
+  matchedRows: SheetRow[];
+  // Rows whose cells went into the value
+  usedRows: number[];
+  // Non-numeric cells a numeric aggregate left out
+  skipped: number;
+  // Cells read, e.g. "B2:B9, B12"
+  range: string;
+  // The table was cut short when stored, so rows beyond it were not counted
+  partial: boolean;
+}
+
+// Rows stored per table; larger tables keep their real row count and are
+// reported as partial in results
+export const MAX_TABLE_ROWS = 5000;
+// Text on the same row of a PDF table shares a baseline within this distance
+const LINE_TOLERANCE = 2;
+// A horizontal gap wider than this many text heights starts a new cell
+const CELL_GAP_EMS = 1;
+// A PDF table needs a header line and at least this many data lines
+const MIN_PDF_TABLE_ROWS = 2;
+// Ranges list this many runs of rows before summarising the rest
+const MAX_RANGE_RUNS = 8;
+const MAX_LISTED_ROWS = 20;
+
+// The first row with any values is taken as the header row, as in formatSheet
+export function sheetToTable(sheet: Sheet): ExtractedTable | null {
+  const rows = sheet.rows
+    .map((row) => ({ ...row, cells: row.cells.filter((cell) => cell.value.trim()) }))
+    .filter((row) => row.cells.length > 0);
+  if (rows.length < 2) return null;
+
+  const [header, ...body] = rows;
+  const names = new Map(header.cells.map((cell) => [cell.column, cell.value.trim()]));
+  const indexes = new Set([...names.keys(), ...body.flatMap((row) => row.cells.map((cell) => cell.column))]);
+  const columns = [...indexes]
+    .sort((a, b) => a - b)
+    .map((index) => ({ index, name: names.get(index) ?? columnLetter(index) }));
+
+  return { name: sheet.name, pageNumber: null, columns, rows: body.slice(0, MAX_TABLE_ROWS), rowCount: body.length };
+}
+
+// Groups a page's text into lines, top to bottom, and each line into cells
+// wherever the gap between runs is wider than the text is tall
+function pageLines(items: PositionedText[]): string[][] {
+  const sorted = items
+    .filter((item) => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: PositionedText[][] = [];
+  sorted.forEach((item) => {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line[0].y - item.y) <= LINE_TOLERANCE) line.push(item);
+    else lines.push([item]);
+  });
+
+  return lines.map((line) => {
+    const cells: { text: string; end: number }[] = [];
+    line.sort((a, b) => a.x - b.x).forEach((item) => {
+      const cell = cells[cells.length - 1];
+      const gap = cell ? item.x - cell.end : Infinity;
+      if (cell && gap <= CELL_GAP_EMS * Math.max(item.height, 1)) {
+        cell.text += gap > 0.1 * item.height && !cell.text.endsWith(" ") ? ` ${item.text}` : item.text;
+        cell.end = Math.max(cell.end, item.x + item.width);
+      } else {
+        cells.push({ text: item.text, end: item.x + item.width });
+      }
+    });
+    return cells.map((cell) => cell.text.replace(/\s+/g, " ").trim());
+  });
+}
+
+// Runs of lines with the same number of cells (at least two) are read as a
+// table with the first line as its header. Two-column prose lines up the same
+// way, so a run only counts when one of its columns is mostly numbers.
+export function detectPdfTables(pages: PositionedPage[]): ExtractedTable[] {
+  const tables: ExtractedTable[] = [];
+
+  pages.forEach(({ pageNumber, items }) => {
+    const lines = pageLines(items);
+    let tableNumber = 0;
+    let start = 0;
+
+    const flush = (end: number) => {
+      const [header, ...body] = lines.slice(start, end);
+      if (body.length < MIN_PDF_TABLE_ROWS) return;
+
+      const numericColumn = header.some((_, column) =>
+        body.filter((line) => parseNumber(line[column]) !== null).length * 2 >= body.length
+      );
+      if (!numericColumn) return;
+
+      tableNumber++;
+      tables.push({
+        name: `Page ${pageNumber} table ${tableNumber}`,
+        pageNumber,
+        columns: header.map((name, index) => ({ index, name: name || columnLetter(index) })),
+        rows: body.slice(0, MAX_TABLE_ROWS).map((line, i) => ({
+          rowNumber: i + 2,
+          cells: line.map((value, column) => ({ column, value })).filter((cell) => cell.value),
+        })),
+        rowCount: body.length,
+      });
+    };
+
+    lines.forEach((line, i) => {
+      if (i === start) return;
+      if (line.length < 2 || line.length !== lines[start].length) {
+        flush(i);
+        start = i;
+      }
+    });
+    flush(lines.length);
+  });
+
+  return tables;
+}
+
+// Figures as statements print them: "₹1,23,456.50", "(1,200)" for negatives,
+// "-4.5%", "Rs. 500". Anything else is not a number.
+export function parseNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  let text = value
+    .trim()
+    .replace(/−/g, "-")
+    .replace(/^(rs\.?|inr|usd|eur|gbp)\s*/i, "")
+    .replace(/[₹$€£¥,\s]/g, "");
+
+  let sign = 1;
+  const parenthesised = text.match(/^\((.*)\)$/);
+  if (parenthesised) {
+    sign = -1;
+    text = parenthesised[1];
+  }
+  text = text.replace(/%$/, "");
+
+  if (!/^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i.test(text)) return null;
+  return sign * Number(text);
+}
+
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 1e6) / 1e6);
+}
+
+function cellValue(row: SheetRow, column: number): string {
+  return row.cells.find((cell) => cell.column === column)?.value.trim() ?? "";
+}
+
+// By exact name, then column letter, then partial name; case-insensitive
+export function findColumn(table: ExtractedTable, name: string): TableColumn | null {
+  const wanted = name.trim().toLowerCase();
+  if (!wanted) return null;
+  return table.columns.find((column) => column.name.toLowerCase() === wanted)
+    ?? table.columns.find((column) => columnLetter(column.index).toLowerCase() === wanted)
+    ?? table.columns.find((column) => column.name.toLowerCase().includes(wanted))
+    ?? null;
+}
+
+function requireColumn(table: ExtractedTable, name: string): TableColumn {
+  const column = findColumn(table, name);
+  if (!column) {
+    throw new Error(`Table "${table.name}" has no column "${name}"`);
+  }
+  return column;
+}
+
+// Numbers compare numerically, anything else as case-insensitive text
+function matchesFilter(cell: string, filter: TableFilter): boolean {
+  const a = parseNumber(cell);
+  const b = parseNumber(filter.value);
+  const text = cell.toLowerCase();
+  const wanted = filter.value.trim().toLowerCase();
+
+  switch (filter.operator) {
+    case "=":
+      return a !== null && b !== null ? a === b : text === wanted;
+    case "!=":
+      return a !== null && b !== null ? a !== b : text !== wanted;
+    case "contains":
+      return text.includes(wanted);
+    default:
+      if (a === null || b === null) return false;
+      if (filter.operator === ">") return a > b;
+      if (filter.operator === ">=") return a >= b;
+      if (filter.operator === "<") return a < b;
+      return a <= b;
+  }
+}
+
+// Consecutive row numbers as [first, last] runs
+function rowRuns(rowNumbers: number[]): [number, number][] {
+  const runs: [number, number][] = [];
+  [...rowNumbers].sort((a, b) => a - b).forEach((row) => {
+    const run = runs[runs.length - 1];
+    if (run && row === run[1] + 1) run[1] = row;
+    else runs.push([row, row]);
+  });
+  return runs;
+}
+
+// "B2:B9, B12" for one column, "A2:D9" for whole rows
+export function cellRange(rowNumbers: number[], firstColumn: number, lastColumn = firstColumn): string {
+  const first = columnLetter(firstColumn);
+  const last = columnLetter(lastColumn);
+  const runs = rowRuns(rowNumbers);
+  const parts = runs.slice(0, MAX_RANGE_RUNS).map(([from, to]) =>
+    from === to && first === last ? `${first}${from}` : `${first}${from}:${last}${to}`
+  );
+  if (runs.length > MAX_RANGE_RUNS) parts.push(`and ${runs.length - MAX_RANGE_RUNS} more ranges`);
+  return parts.join(", ");
+}
+
+export function isTruncated(table: ExtractedTable): boolean {
+  return table.rowCount > table.rows.length;
+}
+
+export function runTableQuery(table: ExtractedTable, query: TableQuery): TableQueryResult {
+  const partial = isTruncated(table);
+  const resolved = (query.filters ?? []).map((filter) => ({ filter, column: requireColumn(table, filter.column) }));
+  const filters = resolved.map(({ filter, column }) => ({ ...filter, column: column.name }));
+  const matchedRows = table.rows.filter((row) =>
+    resolved.every(({ filter, column }) => matchesFilter(cellValue(row, column.index), filter))
+  );
+
+  const column = query.column ? requireColumn(table, query.column) : null;
+  const columnIndexes = table.columns.map((c) => c.index);
+  const wholeRows = (rows: SheetRow[]) =>
+    cellRange(rows.map((row) => row.rowNumber), Math.min(...columnIndexes), Math.max(...columnIndexes));
+
+  if (query.operation === "list" || (query.operation === "count" && !column)) {
+    return {
+      operation: query.operation,
+      column: null,
+      filters,
+      value: query.operation === "count" ? matchedRows.length : null,
+      matchedRows,
+      usedRows: matchedRows.map((row) => row.rowNumber),
+      skipped: 0,
+      range: wholeRows(matchedRows),
+      partial,
+    };
+  }
+  if (!column) {
+    throw new Error(`A ${query.operation} needs a column`);
+  }
+
+  if (query.operation === "count") {
+    const counted = matchedRows.filter((row) => cellValue(row, column.index));
+    return {
+      operation: "count",
+      column,
+      filters,
+      value: counted.length,
+      matchedRows,
+      usedRows: counted.map((row) => row.rowNumber),
+      skipped: 0,
+      range: cellRange(counted.map((row) => row.rowNumber), column.index),
+      partial,
+    };
+  }
+
+  const numbers: { rowNumber: number; value: number }[] = [];
+  let skipped = 0;
+  matchedRows.forEach((row) => {
+    const cell = cellValue(row, column.index);
+    const value = parseNumber(cell);
+    if (value !== null) numbers.push({ rowNumber: row.rowNumber, value });
+    else if (cell) skipped++;
+  });
+
+  const values = numbers.map((n) => n.value);
+  let value: number | null = null;
+  if (values.length > 0) {
+    const sum = values.reduce((total, n) => total + n, 0);
+    if (query.operation === "sum") value = sum;
+    else if (query.operation === "average") value = sum / values.length;
+    else if (query.operation === "min") value = Math.min(...values);
+    else value = Math.max(...values);
+  }
+
+  // A minimum or maximum cites the cells that hold it
+  const used = query.operation === "min" || query.operation === "max"
+    ? numbers.filter((n) => n.value === value)
+    : numbers;
+  const usedRows = used.map((n) => n.rowNumber);
+
+  return {
+    operation: query.operation,
+    column,
+    filters,
+    value,
+    matchedRows,
+    usedRows,
+    skipped,
+    range: cellRange(usedRows, column.index),
+    partial,
+  };
+}
+
+// "sum of Amount where Region = "North""
+export function describeQuery(result: TableQueryResult): string {
+  const target = result.column ? `${result.operation} of ${result.column.name}` : `${result.operation} of rows`;
+  if (result.filters.length === 0) return target;
+  return `${target} where ${result.filters.map((f) => `${f.column} ${f.operator} "${f.value}"`).join(" and ")}`;
+}
+
+// The result as a citable source: the calculation, its value and the cells read
+export function formatTableResult(table: ExtractedTable, documentName: string, result: TableQueryResult): string {
+  const lines = [
+    `Table: ${table.name} (${documentName})`,
+    `Calculation: ${describeQuery(result)}`,
+  ];
+
+  if (result.partial) {
+    lines.push(`PARTIAL RESULT: only the first ${table.rows.length} of ${table.rowCount} rows were stored, so rows after ${table.rows.length} are not included`);
+  }
+
+  if (result.operation === "list") {
+    lines.push(`Matching rows: ${result.matchedRows.length} of ${table.rows.length}`);
+    const names = new Map(table.columns.map((column) => [column.index, column.name]));
+    result.matchedRows.slice(0, MAX_LISTED_ROWS).forEach((row) => {
+      const cells = row.cells.map((cell) =>
+        `${names.get(cell.column) ?? ""} (${columnLetter(cell.column)}${row.rowNumber}): ${cell.value.trim()}`.trim()
+      );
+      lines.push(`Row ${row.rowNumber} | ${cells.join(" | ")}`);
+    });
+    if (result.matchedRows.length > MAX_LISTED_ROWS) {
+      lines.push(`(${result.matchedRows.length - MAX_LISTED_ROWS} more matching rows not shown)`);
+    }
+  } else {
+    lines.push(`Result: ${result.value === null ? "no numeric values" : formatNumber(result.value)}`);
+    lines.push(`Rows used: ${result.usedRows.length} of ${table.rows.length}${result.range ? ` (${result.range})` : ""}`);
+    if (result.skipped > 0) {
+      lines.push(`Skipped ${result.skipped} non-numeric cells`);
+    }
+  }
+
+  return lines.join("\n");
+}
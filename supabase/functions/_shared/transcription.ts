@@ -0,0 +1,263 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { encodeBase64 } from "https://deno.land/std@0.224.0/encoding/base64.ts";
+import { indexDocument } from "./indexing.ts";
+import {
+  findTimestamps,
+  formatTimestamp,
+  mp3Duration,
+  parseWav,
+  shiftTimestamps,
+  sliceMp3,
+  sliceWav,
+  wavDuration,
+} from "./media.ts";
+
+// Each request covers at most this much media, keeping transcripts well under max_tokens
+export const SEGMENT_SECONDS = 10 * 60;
+const MAX_SEGMENTS = 36; // 6 hours
+const END_OF_MEDIA = "END_OF_MEDIA";
+
+export interface TranscriptionResult {
+  done: boolean;
+  segmentCount: number;
+  transcript: string;
+  fullLength: number;
+  chunkCount: number;
+}
+
+export interface TranscriptionOptions {
+  // Stop after this long and report done: false so the caller can resume later
+  timeBudgetMs?: number;
+}
+
+interface TranscriptSegment {
+  segment_index: number;
+  start_seconds: number;
+  end_seconds: number;
+  content: string;
+  is_final: boolean;
+}
+
+const TRANSCRIPTION_RULES = `INSTRUCTIONS:
+1. Transcribe ALL spoken content word-for-word
+2. Include timestamps at the beginning of each major section or paragraph (format: [MM:SS])
+3. If multiple speakers are present, label them as Speaker 1, Speaker 2, etc.
+4. Note any significant non-speech audio in brackets, e.g., [music], [applause], [pause]
+5. Preserve the natural flow and paragraphing of the speech
+6. If there are any unclear words, mark them as [unclear]
+7. For non-English content, provide transcription in the original language
+
+OUTPUT FORMAT:
+Output only the transcript with timestamps - no summary, headings or commentary. If there is no speech, output [no speech].`;
+
+// Used when the clip itself was cut out of the file (WAV/MP3)
+const CLIP_PROMPT = `You are a professional transcription service. Transcribe the following audio clip accurately and completely.
+Timestamps are measured from the start of THIS clip, starting at [00:00].
+
+${TRANSCRIPTION_RULES}`;
+
+// Used for containers that cannot be cut without decoding (MP4/MOV/WEBM/M4A)
+function windowPrompt(startSeconds: number, endSeconds: number, durationSeconds: number | null): string {
+  const length = durationSeconds ? ` The full recording is about ${formatTimestamp(durationSeconds)} long.` : "";
+  return `You are a professional transcription service.${length}
+Transcribe ONLY the portion of the following audio/video file between [${formatTimestamp(startSeconds)}] and [${formatTimestamp(endSeconds)}].
+Timestamps are measured from the start of the WHOLE file, so the first timestamp must be at or after [${formatTimestamp(startSeconds)}].
+If the recording ends before [${formatTimestamp(endSeconds)}], write ${END_OF_MEDIA} on its own line after the last words.
+
+${TRANSCRIPTION_RULES}`;
+}
+
+async function requestTranscript(prompt: string, mimeType: string, base64Data: string, apiKey: string): Promise<string> {
+  // Use Gemini for transcription (it supports audio/video)
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages: [
+        {
+          role: "user",
+          content: [
+            { type: "text", text: prompt },
+            {
+              type: "image_url",
+              image_url: {
+                url: `data:${mimeType};base64,${base64Data}`
+              }
+            }
+          ]
+        }
+      ],
+      max_tokens: 8000,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Transcription API error:", response.status, errorText);
+    throw new Error(`Transcription failed: ${response.status}`);
+  }
+
+  const result = await response.json();
+  return (result.choices?.[0]?.message?.content || "").trim();
+}
+
+// Transcribes an audio/video document in fixed time windows, persisting each
+// window as a transcript_segments row. Already-transcribed segments are kept,
+// so a call that runs out of time can be resumed. Once every window is done the
+// stitched transcript is stored on the document and indexed. Expects a
+// service-role client.
+export async function transcribeDocument(
+  supabase: SupabaseClient,
+  documentId: string,
+  apiKey: string,
+  options: TranscriptionOptions = {},
+): Promise<TranscriptionResult> {
+  const startedAt = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? Infinity;
+
+  const { data: doc, error: docError } = await supabase
+    .from("documents")
+    .select("id, user_id, name, file_path, file_type, duration_seconds")
+    .eq("id", documentId)
+    .single();
+
+  if (docError || !doc) {
+    throw new Error(`Document not found: ${docError?.message ?? documentId}`);
+  }
+
+  console.log(`Starting transcription for: ${doc.name} (${doc.file_type})`);
+
+  // Download the file from storage
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from("documents")
+    .download(doc.file_path);
+
+  if (downloadError || !fileData) {
+    throw new Error(`Failed to download file: ${downloadError?.message}`);
+  }
+
+  const bytes = new Uint8Array(await fileData.arrayBuffer());
+
+  // WAV and MP3 can be cut into real clips; other containers are sent whole
+  // with instructions to transcribe one time window
+  const wav = doc.file_type === "audio/wav" || doc.file_type === "audio/x-wav" ? parseWav(bytes) : null;
+  const isMp3 = doc.file_type === "audio/mpeg";
+  let durationSeconds: number | null = wav
+    ? wavDuration(wav)
+    : doc.duration_seconds ?? (isMp3 ? mp3Duration(bytes) : null);
+
+  // Determine media type for Gemini
+  let mimeType = doc.file_type;
+  if (doc.file_type === "video/quicktime") {
+    mimeType = "video/mp4"; // Gemini doesn't support mov directly
+  }
+  let wholeFileBase64: string | null = null;
+
+  const { data: existing, error: segmentsError } = await supabase
+    .from("transcript_segments")
+    .select("segment_index, start_seconds, end_seconds, content, is_final")
+    .eq("document_id", doc.id)
+    .order("segment_index", { ascending: true });
+
+  if (segmentsError) {
+    throw new Error(`Failed to load transcript segments: ${segmentsError.message}`);
+  }
+
+  const segments = (existing || []) as TranscriptSegment[];
+  const isComplete = () => {
+    const last = segments[segments.length - 1];
+    if (!last) return false;
+    return last.is_final || (durationSeconds !== null && last.end_seconds >= durationSeconds - 0.5);
+  };
+
+  // Always transcribe at least one segment per call so resuming makes progress
+  const resumedFrom = segments.length;
+  while (!isComplete() && segments.length < MAX_SEGMENTS) {
+    if (segments.length > resumedFrom && Date.now() - startedAt > timeBudgetMs) {
+      console.log(`Time budget reached after ${segments.length} segments, pausing`);
+      break;
+    }
+
+    const index = segments.length;
+    const start = segments[index - 1]?.end_seconds ?? 0;
+    let end = durationSeconds !== null ? Math.min(start + SEGMENT_SECONDS, durationSeconds) : start + SEGMENT_SECONDS;
+    let content: string;
+    let isFinal = durationSeconds !== null && end >= durationSeconds - 0.5;
+
+    console.log(`Transcribing segment ${index + 1} [${formatTimestamp(start)}-${formatTimestamp(end)}]`);
+
+    if (wav) {
+      const clip = sliceWav(bytes, wav, start, end);
+      content = shiftTimestamps(await requestTranscript(CLIP_PROMPT, "audio/wav", encodeBase64(clip), apiKey), start);
+    } else if (isMp3 && durationSeconds) {
+      const clip = sliceMp3(bytes, durationSeconds, start, end);
+      content = shiftTimestamps(await requestTranscript(CLIP_PROMPT, "audio/mpeg", encodeBase64(clip), apiKey), start);
+    } else {
+      wholeFileBase64 ??= encodeBase64(bytes);
+      content = await requestTranscript(windowPrompt(start, end, durationSeconds), mimeType, wholeFileBase64, apiKey);
+
+      if (content.includes(END_OF_MEDIA)) {
+        content = content.replace(END_OF_MEDIA, "").trim();
+        const lastMark = findTimestamps(content).pop();
+        end = Math.max(start, lastMark?.seconds ?? start);
+        isFinal = true;
+      }
+    }
+
+    const segment: TranscriptSegment = {
+      segment_index: index,
+      start_seconds: start,
+      end_seconds: end,
+      content,
+      is_final: isFinal,
+    };
+
+    const { error: insertError } = await supabase
+      .from("transcript_segments")
+      .upsert({ document_id: doc.id, user_id: doc.user_id, ...segment }, { onConflict: "document_id,segment_index" });
+
+    if (insertError) {
+      throw new Error(`Failed to save transcript segment: ${insertError.message}`);
+    }
+    segments.push(segment);
+  }
+
+  if (!isComplete() && segments.length < MAX_SEGMENTS) {
+    return { done: false, segmentCount: segments.length, transcript: "", fullLength: 0, chunkCount: 0 };
+  }
+
+  durationSeconds ??= segments[segments.length - 1]?.end_seconds ?? 0;
+  const transcript = segments
+    .map((s) => s.content)
+    .filter((c) => c && c !== "[no speech]")
+    .join("\n\n");
+
+  if (!transcript) {
+    throw new Error("No transcript generated");
+  }
+
+  console.log(`Transcript stitched from ${segments.length} segments, length: ${transcript.length} characters`);
+
+  // Update the document record with the transcript
+  const { error: updateError } = await supabase
+    .from("documents")
+    .update({ content: transcript, duration_seconds: durationSeconds })
+    .eq("id", doc.id);
+
+  if (updateError) {
+    console.error("Failed to update document with transcript:", updateError);
+    throw new Error(`Failed to save transcript: ${updateError.message}`);
+  }
+
+  console.log("Transcript saved successfully");
+
+  // Chunk and embed the transcript so it is searchable
+  const { chunkCount } = await indexDocument(supabase, doc.id, apiKey);
+  console.log(`Transcript indexed into ${chunkCount} chunks`);
+
+  return { done: true, segmentCount: segments.length, transcript, fullLength: transcript.length, chunkCount };
+}
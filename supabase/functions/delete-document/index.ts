@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DOCUMENTS_BUCKET, findStoredObject } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Rows derived from a document, all removed with it by ON DELETE CASCADE
+const DERIVED_TABLES = {
+  chunks: "document_chunks",
+  transcriptSegments: "transcript_segments",
+  tables: "document_tables",
+  ingestionJobs: "ingestion_jobs",
+  chatLinks: "chat_documents",
+} as const;
+
+type DerivedCounts = Record<keyof typeof DERIVED_TABLES, number>;
+
+async function countDerivedRows(supabase: SupabaseClient, documentId: string): Promise<DerivedCounts> {
+  const entries = await Promise.all(
+    Object.entries(DERIVED_TABLES).map(async ([key, table]) => {
+      const { count, error } = await supabase
+        .from(table)
+        .select("*", { count: "exact", head: true })
+        .eq("document_id", documentId);
+      if (error) {
+        throw new Error(`Failed to count ${table}: ${error.message}`);
+      }
+      return [key, count ?? 0] as const;
+    })
+  );
+  return Object.fromEntries(entries) as DerivedCounts;
+}
+
+// Deletes one of the caller's documents: the row and everything derived from
+// it, then the stored file at documents.file_path. Reports what was freed. A
+// file that cannot be removed is left for sweep-orphans rather than failing
+// the delete.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { documentId } = await req.json();
+
+    if (!documentId) {
+      return new Response(
+        JSON.stringify({ success: false, error: "documentId is required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    // RLS on the caller's own client confirms the document is theirs
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: doc } = await userClient
+      .from("documents")
+      .select("id, name, file_path")
+      .eq("id", documentId)
+      .maybeSingle();
+
+    if (!doc) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Document not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const derived = await countDerivedRows(supabase, doc.id);
+    const stored = doc.file_path ? await findStoredObject(supabase, doc.file_path) : null;
+
+    const { error: deleteError } = await supabase.from("documents").delete().eq("id", doc.id);
+    if (deleteError) {
+      throw new Error(`Failed to delete document: ${deleteError.message}`);
+    }
+
+    let fileRemoved = false;
+    if (stored) {
+      const { error: removeError } = await supabase.storage.from(DOCUMENTS_BUCKET).remove([stored.path]);
+      if (removeError) {
+        console.error(`Could not remove ${stored.path}; left for the orphan sweep:`, removeError.message);
+      } else {
+        fileRemoved = true;
+      }
+    }
+
+    console.log(`Deleted ${doc.id} (${doc.name}): file ${fileRemoved ? "removed" : "not removed"}, ${JSON.stringify(derived)}`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        documentId: doc.id,
+        freed: {
+          fileRemoved,
+          storageBytes: fileRemoved && stored ? stored.size : 0,
+          ...derived,
+        },
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Delete document error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
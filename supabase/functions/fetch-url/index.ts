@@ -0,0 +1,283 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { type FileTypeDefinition, getFileType, resolveFileType } from "../_shared/file-types.ts";
+import { registerDocument, startIngestionWorker } from "../_shared/ingest.ts";
+import { htmlTitle } from "../_shared/markup.ts";
+import { isIpAddress, isPrivateAddress } from "../_shared/network.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Slow sites should not hold the function until the platform kills it; covers
+// every redirect hop and the whole body
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+const USER_AGENT = "Mozilla/5.0 (compatible; FS-RAG/1.0; knowledge base import)";
+
+// Only http(s) URLs whose host is not a local name or a private IP literal.
+// Names are resolved separately (resolvesPublicly) before each request.
+function parsePublicUrl(input: unknown): URL | null {
+  if (typeof input !== "string") return null;
+
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const privateHost =
+    host === "localhost" ||
+    host.endsWith(".localhost") ||
+    host.endsWith(".internal") ||
+    host.endsWith(".local") ||
+    (isIpAddress(host) && isPrivateAddress(host));
+  return privateHost ? null : url;
+}
+
+// Every address the host resolves to must be public. fetch resolves the name
+// again, so this narrows rather than closes DNS rebinding.
+async function resolvesPublicly(hostname: string): Promise<boolean> {
+  const host = hostname.replace(/^\[|\]$/g, "");
+  if (isIpAddress(host)) return !isPrivateAddress(host);
+
+  const lookups = await Promise.all(
+    (["A", "AAAA"] as const).map((type) => Deno.resolveDns(host, type).catch(() => [] as string[]))
+  );
+  const addresses = lookups.flat();
+  return addresses.length > 0 && addresses.every((address) => !isPrivateAddress(address));
+}
+
+type Refusal = { error: string; status: number };
+
+// Follows redirects by hand so every hop is checked before it is contacted
+async function fetchPublicPage(start: URL, signal: AbortSignal): Promise<{ page: Response; url: URL } | Refusal> {
+  let url = start;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!(await resolvesPublicly(url.hostname))) {
+      return hop === 0
+        ? { error: "This address could not be resolved to a public server", status: 400 }
+        : { error: "The page redirected to a private address", status: 502 };
+    }
+
+    const page = await fetch(url.href, {
+      headers: { "User-Agent": USER_AGENT, Accept: "text/html,application/xhtml+xml,*/*;q=0.8" },
+      redirect: "manual",
+      signal,
+    });
+
+    const location = page.headers.get("location");
+    if (page.status < 300 || page.status >= 400 || !location) {
+      return { page, url };
+    }
+    await page.body?.cancel();
+
+    let next: URL | null;
+    try {
+      next = parsePublicUrl(new URL(location, url).href);
+    } catch {
+      next = null;
+    }
+    if (!next) {
+      return { error: "The page redirected to a private or invalid address", status: 502 };
+    }
+    url = next;
+  }
+  return { error: `The page redirected more than ${MAX_REDIRECTS} times`, status: 502 };
+}
+
+// The body up to maxBytes, or null as soon as it grows past that; a missing
+// or wrong Content-Length cannot make the whole response land in memory
+async function readBody(page: Response, maxBytes: number): Promise<Uint8Array | null> {
+  if (!page.body) return new Uint8Array();
+
+  const reader = page.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+type Download = { url: URL; fileType: FileTypeDefinition; bytes: Uint8Array };
+
+async function downloadPage(start: URL): Promise<Download | Refusal> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+  try {
+    const fetched = await fetchPublicPage(start, controller.signal);
+    if ("error" in fetched) return fetched;
+    const { page, url } = fetched;
+
+    if (!page.ok) {
+      await page.body?.cancel();
+      return { error: `The page returned HTTP ${page.status}`, status: 502 };
+    }
+
+    // The server's content type decides; the extension is only a fallback
+    const mimeType = (page.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+    const fileType = getFileType(mimeType) ?? resolveFileType(url.pathname, mimeType);
+    if (!fileType) {
+      await page.body?.cancel();
+      return { error: `Unsupported content type: ${mimeType || "unknown"}`, status: 415 };
+    }
+
+    const tooLarge = {
+      error: `The ${fileType.label} file is larger than ${fileType.maxBytes / (1024 * 1024)}MB`,
+      status: 413,
+    };
+    if (Number(page.headers.get("content-length")) > fileType.maxBytes) {
+      await page.body?.cancel();
+      return tooLarge;
+    }
+
+    const bytes = await readBody(page, fileType.maxBytes);
+    return bytes ? { url, fileType, bytes } : tooLarge;
+  } catch (e) {
+    const message = e instanceof DOMException && e.name === "AbortError"
+      ? `The page took longer than ${FETCH_TIMEOUT_MS / 1000} seconds to load`
+      : "The page could not be reached";
+    return { error: message, status: 502 };
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Name shown in the Documents list: the page title, or the last path segment
+function documentName(url: URL, title: string | null): string {
+  if (title) return title.slice(0, 200);
+  const segment = decodeURIComponent(url.pathname.split("/").filter(Boolean).pop() ?? "");
+  return segment || url.hostname;
+}
+
+function storageFileName(name: string, extension: string): string {
+  const slug = name
+    .normalize("NFKD")
+    .replace(/[^\w.-]+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 80) || "page";
+  return slug.toLowerCase().endsWith(extension) ? slug : `${slug}${extension}`;
+}
+
+// Downloads a web page (or a linked PDF, spreadsheet, etc.), stores a snapshot
+// in the documents bucket, records the source URL and fetch time on a new
+// document and queues it for ingestion like an upload (see _shared/ingest.ts)
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { url: requestedUrl } = await req.json();
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    const url = parsePublicUrl(requestedUrl);
+    if (!url) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Please enter a public http:// or https:// address" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    console.log(`Fetching ${url.href} for ${user.id}`);
+
+    const download = await downloadPage(url);
+    if ("error" in download) {
+      return new Response(
+        JSON.stringify({ success: false, error: download.error }),
+        { status: download.status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { url: finalUrl, fileType, bytes } = download;
+    const fetchedAt = new Date().toISOString();
+
+    const text = fileType.category === "document" && fileType.mimeType.startsWith("text/")
+      ? new TextDecoder().decode(bytes)
+      : null;
+    const name = documentName(finalUrl, fileType.mimeType === "text/html" && text ? htmlTitle(text) : null);
+    const filePath = `${user.id}/${Date.now()}-${storageFileName(name, fileType.extensions[0])}`;
+
+    // Written with the service role on the caller's behalf, into their folder
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { error: uploadError } = await supabase.storage
+      .from("documents")
+      .upload(filePath, bytes, { contentType: fileType.mimeType });
+
+    if (uploadError) {
+      throw new Error(`Failed to store snapshot: ${uploadError.message}`);
+    }
+
+    const doc = await registerDocument(supabase, {
+      userId: user.id,
+      name,
+      filePath,
+      fileType,
+      fileSize: bytes.length,
+      content: fileType.plainText ? text : null,
+      sourceUrl: finalUrl.href,
+      fetchedAt,
+    });
+    startIngestionWorker(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, doc.jobId);
+
+    console.log(`Stored ${finalUrl.href} as ${doc.id} (${fileType.label}, ${bytes.length} bytes)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        document: { id: doc.id, name: doc.name, fileType: doc.fileType },
+        jobId: doc.jobId,
+        sourceUrl: finalUrl.href,
+        fetchedAt,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Fetch URL error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
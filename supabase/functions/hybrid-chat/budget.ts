@@ -0,0 +1,173 @@
+import type { ChatMessage } from "./history.ts";
+
+// Keeps the assembled prompt within a per-model token budget. The fixed part of
+// the system prompt is charged first; what is left is split between retrieved
+// documents, conversation history and live data, and any share a section does
+// not need is handed to the others. The resulting allocation is reported back
+// to the client so truncated answers can be traced to what was cut.
+
+export type BudgetSection = "documents" | "history" | "liveData";
+
+export interface ModelBudget {
+  // Tokens the whole prompt (system prompt plus messages) may use
+  promptTokens: number;
+  // Share of the tokens left after the fixed prompt, per section
+  shares: Record<BudgetSection, number>;
+}
+
+export interface SectionUsage {
+  // Tokens the section would need to include everything
+  requested: number;
+  allocated: number;
+  used: number;
+  // Items (passages, documents, messages) left out or cut short
+  dropped: number;
+}
+
+export interface BudgetReport {
+  model: string;
+  promptTokens: number;
+  fixedTokens: number;
+  sections: Record<BudgetSection, SectionUsage>;
+}
+
+const DEFAULT_SHARES: Record<BudgetSection, number> = { documents: 0.6, history: 0.3, liveData: 0.1 };
+
+// Deliberately well below the models' context windows to bound latency and cost
+const MODEL_BUDGETS: Record<string, ModelBudget> = {
+  "google/gemini-3-flash-preview": { promptTokens: 48_000, shares: DEFAULT_SHARES },
+  "google/gemini-2.5-flash": { promptTokens: 32_000, shares: DEFAULT_SHARES },
+};
+
+const FALLBACK_BUDGET: ModelBudget = { promptTokens: 16_000, shares: DEFAULT_SHARES };
+
+// Never cut a message or document below this; drop it instead
+const MIN_ITEM_TOKENS = 50;
+
+const SECTIONS: BudgetSection[] = ["documents", "history", "liveData"];
+
+// `override` is the PROMPT_TOKEN_BUDGET env var, which replaces the model's total
+export function getModelBudget(model: string, override?: string): ModelBudget {
+  const budget = MODEL_BUDGETS[model] ?? FALLBACK_BUDGET;
+  const promptTokens = Number(override);
+  return Number.isFinite(promptTokens) && promptTokens > 0 ? { ...budget, promptTokens } : budget;
+}
+
+// Rough estimate without a tokenizer: Latin text averages ~4 characters per
+// token, while Devanagari and Arabic script run closer to 2
+export function estimateTokens(text: string): number {
+  let ascii = 0;
+  let other = 0;
+  for (const char of text) {
+    if (char.charCodeAt(0) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / 4 + other / 2);
+}
+
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+
+  // Binary search on characters, since the estimate depends on the script
+  let low = 0;
+  let high = text.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) low = mid;
+    else high = mid - 1;
+  }
+  return text.slice(0, low);
+}
+
+// Splits what is left after the fixed prompt by share, then repeatedly hands
+// the unused part of satisfied sections to those that still want more
+export function allocateBudget(
+  budget: ModelBudget,
+  fixedTokens: number,
+  requested: Record<BudgetSection, number>,
+): Record<BudgetSection, number> {
+  const allocation: Record<BudgetSection, number> = { documents: 0, history: 0, liveData: 0 };
+  let remaining = Math.max(budget.promptTokens - fixedTokens, 0);
+  let open = SECTIONS.filter((section) => requested[section] > 0);
+
+  while (remaining > 0 && open.length > 0) {
+    const totalShare = open.reduce((sum, section) => sum + budget.shares[section], 0);
+    let handedOut = 0;
+
+    open.forEach((section) => {
+      const share = totalShare > 0 ? budget.shares[section] / totalShare : 1 / open.length;
+      const grant = Math.min(Math.floor(remaining * share), requested[section] - allocation[section]);
+      allocation[section] += grant;
+      handedOut += grant;
+    });
+
+    remaining -= handedOut;
+    const stillOpen = open.filter((section) => allocation[section] < requested[section]);
+    // Nothing left to redistribute, or rounding stopped making progress
+    if (stillOpen.length === open.length || handedOut === 0) break;
+    open = stillOpen;
+  }
+
+  return allocation;
+}
+
+// Keeps items in order (best first) while they fit. The first item that does
+// not fit is cut short when `truncate` is given and enough room is left.
+export function fitItems<T>(
+  items: T[],
+  maxTokens: number,
+  cost: (item: T) => number,
+  truncate?: (item: T, maxTokens: number) => T,
+): { kept: T[]; used: number; dropped: number } {
+  const kept: T[] = [];
+  let used = 0;
+  let truncated = 0;
+
+  for (const item of items) {
+    const tokens = cost(item);
+    if (used + tokens <= maxTokens) {
+      kept.push(item);
+      used += tokens;
+      continue;
+    }
+    const room = maxTokens - used;
+    if (truncate && room >= MIN_ITEM_TOKENS) {
+      const cut = truncate(item, room);
+      kept.push(cut);
+      used += cost(cut);
+      truncated = 1;
+    }
+    break;
+  }
+
+  // A truncated item counts as dropped: part of it is missing
+  return { kept, used, dropped: items.length - kept.length + truncated };
+}
+
+// Keeps the most recent messages that fit. The latest user message is always
+// sent, cut short if it alone exceeds the budget.
+export function fitHistory(
+  messages: ChatMessage[],
+  maxTokens: number,
+): { kept: ChatMessage[]; used: number; dropped: number } {
+  if (messages.length === 0) return { kept: [], used: 0, dropped: 0 };
+
+  const latest = messages[messages.length - 1];
+  const latestTokens = estimateTokens(latest.content);
+  const current = latestTokens <= maxTokens
+    ? latest
+    : { ...latest, content: truncateToTokens(latest.content, Math.max(maxTokens, MIN_ITEM_TOKENS)) };
+
+  const used = estimateTokens(current.content);
+  const earlier = fitItems(
+    messages.slice(0, -1).reverse(),
+    Math.max(maxTokens - used, 0),
+    (m) => estimateTokens(m.content),
+  );
+
+  return {
+    kept: [...earlier.kept.reverse(), current],
+    used: used + earlier.used,
+    dropped: earlier.dropped + (current === latest ? 0 : 1),
+  };
+}
@@ -0,0 +1,359 @@
+import { formatTimestamp } from "../_shared/media.ts";
+import type { RetrievedChunk, StoredDocument } from "./retrieval.ts";
+import type { VerificationStatus } from "./verification.ts";
+import type { ToolResult } from "./tools.ts";
+import type { TableResult } from "./tables.ts";
+
+// Structured citations. Every passage in the prompt is labelled [S1], [S2], ...;
+// the model cites those labels and ends its answer with an <evidence> JSON
+// block. The block is cut out of the streamed text and sent to the client as a
+// separate `event: evidence` SSE event, so nothing depends on the prose format.
+
+const EVIDENCE_OPEN = "<evidence>";
+const EVIDENCE_CLOSE = "</evidence>";
+
+export type Confidence = "High" | "Medium" | "Low";
+
+// How a passage was found: rank in each retriever, the fused RRF score and
+// the reranker's verdict
+export interface RetrievalScores {
+  fusedScore: number;
+  similarity: number | null;
+  bm25: number | null;
+  semanticRank: number | null;
+  lexicalRank: number | null;
+  rerankScore: number | null;
+  rerankPosition: number | null;
+  reranker: string | null;
+}
+
+export interface EvidenceSource {
+  sourceId: string;
+  chunkId: string | null;
+  documentId: string | null;
+  documentName: string;
+  pageNumber: number | null;
+  startSeconds: number | null;
+  // Heading, slide or sheet rows, for documents without pages
+  section: string | null;
+  // Web page a document was fetched from
+  sourceUrl: string | null;
+  content: string;
+  retrieval: RetrievalScores | null;
+  // Stored table a computed result was calculated from
+  tableId: string | null;
+  // Live-data tool that produced the source, and when
+  tool: string | null;
+  fetchedAt: string | null;
+}
+
+export interface EvidenceItem {
+  sourceId: string;
+  chunkId: string | null;
+  documentId: string | null;
+  document: string;
+  page: string | null;
+  pageNumber: number | null;
+  startSeconds: number | null;
+  section: string | null;
+  sourceUrl: string | null;
+  text: string;
+  // The quote translated into the response language when the source is in
+  // another language; verification always checks the original `text`
+  gloss: string | null;
+  retrieval: RetrievalScores | null;
+  tableId: string | null;
+  tool: string | null;
+  fetchedAt: string | null;
+  verification?: VerificationStatus;
+  matchScore?: number;
+}
+
+export interface EvidencePayload {
+  evidence: EvidenceItem[];
+  confidence: Confidence | null;
+  // What the model claimed before verification adjusted it
+  reportedConfidence?: Confidence | null;
+}
+
+export function sourceLabel(index: number): string {
+  return `S${index + 1}`;
+}
+
+// Retrieved chunks come first (in relevance order), then unindexed documents,
+// computed table results and live-data tool results; the prompt context uses
+// the same numbering
+export function buildEvidenceSources(
+  chunks: RetrievedChunk[],
+  documents: StoredDocument[],
+  tables: TableResult[] = [],
+  liveData: ToolResult[] = [],
+  sourceUrls: Map<string, string> = new Map(),
+): EvidenceSource[] {
+  const fromChunks = chunks.map((chunk, i) => ({
+    sourceId: sourceLabel(i),
+    chunkId: chunk.id,
+    documentId: chunk.document_id,
+    documentName: chunk.document_name,
+    pageNumber: chunk.page_number,
+    startSeconds: chunk.start_seconds,
+    section: chunk.section,
+    sourceUrl: sourceUrls.get(chunk.document_id) ?? null,
+    content: chunk.content,
+    retrieval: {
+      fusedScore: chunk.fused_score,
+      similarity: chunk.similarity,
+      bm25: chunk.bm25,
+      semanticRank: chunk.semantic_rank,
+      lexicalRank: chunk.lexical_rank,
+      rerankScore: chunk.rerank_score,
+      rerankPosition: chunk.rerank_position,
+      reranker: chunk.reranker,
+    },
+    tableId: null,
+    tool: null,
+    fetchedAt: null,
+  }));
+  const fromDocuments = documents.map((doc, i) => ({
+    sourceId: sourceLabel(chunks.length + i),
+    chunkId: null,
+    documentId: doc.id,
+    documentName: doc.name,
+    pageNumber: null,
+    startSeconds: null,
+    section: null,
+    sourceUrl: sourceUrls.get(doc.id) ?? null,
+    content: doc.content,
+    retrieval: null,
+    tableId: null,
+    tool: null,
+    fetchedAt: null,
+  }));
+  const fromTables = tables.map((result, i) => ({
+    sourceId: sourceLabel(chunks.length + documents.length + i),
+    chunkId: null,
+    documentId: result.documentId,
+    documentName: result.documentName,
+    pageNumber: result.pageNumber,
+    startSeconds: null,
+    section: result.range,
+    sourceUrl: sourceUrls.get(result.documentId) ?? null,
+    content: result.content,
+    retrieval: null,
+    tableId: result.tableId,
+    tool: null,
+    fetchedAt: null,
+  }));
+  const fromLiveData = liveData.map((result, i) => ({
+    sourceId: sourceLabel(chunks.length + documents.length + tables.length + i),
+    chunkId: null,
+    documentId: null,
+    documentName: result.label,
+    pageNumber: null,
+    startSeconds: null,
+    section: null,
+    sourceUrl: null,
+    content: result.content,
+    retrieval: null,
+    tableId: null,
+    tool: result.tool,
+    fetchedAt: result.fetchedAt,
+  }));
+  return [...fromChunks, ...fromDocuments, ...fromTables, ...fromLiveData];
+}
+
+export const EVIDENCE_INSTRUCTIONS = `CITATIONS:
+- Every passage, document, table result and live-data result above is labelled with a source id such as [S1]
+- Cite the source ids inline after the sentences they support, e.g. "... was 12% [S2]."
+- After your answer, on a new line, output a single evidence block in exactly this format (JSON, English keys, quotes copied verbatim in the document's original language):
+${EVIDENCE_OPEN}{"citations":[{"source":"S2","quote":"exact text copied from that source","gloss":null}],"confidence":"High"}${EVIDENCE_CLOSE}
+- When a quote is in a different language from your response, set "gloss" to its translation into the response language; otherwise set it to null
+- "confidence" is High, Medium or Low depending on how directly the quotes support the answer
+- Do not write any other Evidence or Confidence section`;
+
+function normalizeConfidence(value: unknown): Confidence | null {
+  if (typeof value !== "string") return null;
+  const lower = value.trim().toLowerCase();
+  if (lower === "high") return "High";
+  if (lower === "medium") return "Medium";
+  if (lower === "low") return "Low";
+  return null;
+}
+
+function locationLabel(source: EvidenceSource): string | null {
+  if (source.pageNumber !== null) return String(source.pageNumber);
+  if (source.startSeconds !== null) return formatTimestamp(source.startSeconds);
+  return source.section;
+}
+
+// Maps the model's citations back to the passages it was shown. Citations of
+// unknown source ids are dropped rather than trusted.
+export function parseEvidenceBlock(raw: string, sources: EvidenceSource[]): EvidencePayload {
+  const closeAt = raw.indexOf(EVIDENCE_CLOSE);
+  const body = (closeAt === -1 ? raw : raw.slice(0, closeAt))
+    .replace(/^\s*```(?:json)?/, "")
+    .replace(/```\s*$/, "")
+    .trim();
+
+  let parsed: { citations?: { source?: unknown; quote?: unknown; gloss?: unknown }[]; confidence?: unknown };
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    console.error("Could not parse evidence block:", body.slice(0, 200));
+    return { evidence: [], confidence: null };
+  }
+
+  const byId = new Map(sources.map((source) => [source.sourceId, source]));
+  const seen = new Set<string>();
+  const evidence: EvidenceItem[] = [];
+
+  (Array.isArray(parsed.citations) ? parsed.citations : []).forEach((citation) => {
+    const sourceId = String(citation?.source ?? "").replace(/[[\]]/g, "").trim().toUpperCase();
+    const source = byId.get(sourceId);
+    const text = typeof citation?.quote === "string" ? citation.quote.trim() : "";
+    const gloss = typeof citation?.gloss === "string" ? citation.gloss.trim() : "";
+    const key = `${sourceId}:${text}`;
+    if (!source || seen.has(key)) return;
+
+    seen.add(key);
+    evidence.push({
+      sourceId,
+      chunkId: source.chunkId,
+      documentId: source.documentId,
+      document: source.documentName,
+      page: locationLabel(source),
+      pageNumber: source.pageNumber,
+      startSeconds: source.startSeconds,
+      section: source.section,
+      sourceUrl: source.sourceUrl,
+      text,
+      gloss: gloss && gloss !== text ? gloss : null,
+      retrieval: source.retrieval,
+      tableId: source.tableId,
+      tool: source.tool,
+      fetchedAt: source.fetchedAt,
+    });
+  });
+
+  return { evidence, confidence: normalizeConfidence(parsed.confidence) };
+}
+
+// Length of the longest suffix of text that could be the start of the marker
+function partialMarkerLength(text: string): number {
+  for (let length = Math.min(EVIDENCE_OPEN.length - 1, text.length); length > 0; length--) {
+    if (text.endsWith(EVIDENCE_OPEN.slice(0, length))) return length;
+  }
+  return 0;
+}
+
+export interface EvidenceStreamOptions {
+  // Sent first as an `event: metadata` event (e.g. the rewritten query)
+  metadata?: Record<string, unknown>;
+  // Runs on the parsed evidence before it is sent (e.g. quote verification)
+  finalize?: (payload: EvidencePayload) => Promise<EvidencePayload>;
+}
+
+// Re-streams the gateway's SSE response as content deltas with the evidence
+// block removed, followed by an `event: evidence` event and [DONE]
+export function createEvidenceStream(
+  upstream: ReadableStream<Uint8Array>,
+  sources: EvidenceSource[],
+  { metadata, finalize }: EvidenceStreamOptions = {},
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const reader = upstream.getReader();
+      let lineBuffer = "";
+      let pending = "";
+      let evidenceText: string | null = null;
+
+      if (metadata) {
+        controller.enqueue(encoder.encode(`event: metadata\ndata: ${JSON.stringify(metadata)}\n\n`));
+      }
+
+      const emitContent = (text: string) => {
+        if (!text) return;
+        const chunk = { choices: [{ delta: { content: text } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+      };
+
+      const handleContent = (delta: string) => {
+        if (evidenceText !== null) {
+          evidenceText += delta;
+          return;
+        }
+
+        pending += delta;
+        const markerAt = pending.indexOf(EVIDENCE_OPEN);
+        if (markerAt !== -1) {
+          emitContent(pending.slice(0, markerAt));
+          evidenceText = pending.slice(markerAt + EVIDENCE_OPEN.length);
+          pending = "";
+          return;
+        }
+
+        // Hold back anything that might be the first half of the marker
+        const keep = partialMarkerLength(pending);
+        emitContent(pending.slice(0, pending.length - keep));
+        pending = pending.slice(pending.length - keep);
+      };
+
+      const handleLine = (line: string): boolean => {
+        if (line.endsWith("\r")) line = line.slice(0, -1);
+        if (!line.startsWith("data: ")) return false;
+
+        const data = line.slice(6).trim();
+        if (data === "[DONE]") return true;
+
+        try {
+          const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+          if (delta) handleContent(delta);
+        } catch {
+          console.error("Skipping malformed stream line:", data.slice(0, 200));
+        }
+        return false;
+      };
+
+      try {
+        let finished = false;
+        while (!finished) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          lineBuffer += decoder.decode(value, { stream: true });
+          let newlineIndex: number;
+          while (!finished && (newlineIndex = lineBuffer.indexOf("\n")) !== -1) {
+            const line = lineBuffer.slice(0, newlineIndex);
+            lineBuffer = lineBuffer.slice(newlineIndex + 1);
+            finished = handleLine(line);
+          }
+        }
+        if (lineBuffer) handleLine(lineBuffer);
+
+        emitContent(pending);
+        let payload: EvidencePayload = evidenceText !== null
+          ? parseEvidenceBlock(evidenceText, sources)
+          : { evidence: [], confidence: null };
+        if (finalize) {
+          try {
+            payload = await finalize(payload);
+          } catch (e) {
+            console.error("Error finalizing evidence:", e);
+          }
+        }
+
+        controller.enqueue(encoder.encode(`event: evidence\ndata: ${JSON.stringify(payload)}\n\n`));
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        console.error("Error relaying chat stream:", error);
+        controller.error(error);
+      } finally {
+        reader.releaseLock();
+      }
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+// Loads the stored conversation for a chat (RLS-scoped client) and makes sure
+// it ends with the current user message, even if the client has not saved it yet
+export async function loadChatHistory(
+  supabase: SupabaseClient,
+  chatId: string,
+  message: string,
+): Promise<ChatMessage[]> {
+  const { data, error } = await supabase
+    .from("messages")
+    .select("role, content")
+    .eq("chat_id", chatId)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load chat history: ${error.message}`);
+  }
+
+  const history = ((data || []) as ChatMessage[]).filter((m) => m.content);
+  const last = history[history.length - 1];
+  if (!last || last.role !== "user" || last.content !== message) {
+    history.push({ role: "user", content: message });
+  }
+  return history;
+}
@@ -1,203 +1,51 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  retrieveChunks,
+  buildChunkContext,
+  fetchChatDocumentIds,
+  fetchSourceUrls,
+  fetchUnindexedDocuments,
+  rerankChunks,
+  RetrievedChunk,
+  StoredDocument,
+} from "./retrieval.ts";
+import { loadChatHistory } from "./history.ts";
+import { buildEvidenceSources, createEvidenceStream, EVIDENCE_INSTRUCTIONS, sourceLabel } from "./evidence.ts";
+import { verifyEvidence } from "./verification.ts";
+import { createReranker } from "./rerank.ts";
+import { condenseQuery } from "./rewrite.ts";
+import { fetchDocumentLanguages, QueryTranslation, translateQuery } from "./translate.ts";
+import { loadChatMemory } from "./memory.ts";
+import { intentToolCalls, routeTools, runTools, ToolCall, ToolResult } from "./tools.ts";
+import { fetchDocumentTables, planTableQueries, runTableQueries, TableResult } from "./tables.ts";
+import { classifyIntent } from "../_shared/intent.ts";
+import { detectLanguage } from "../_shared/language.ts";
+import { getLanguage, isLanguageCode, LANGUAGES } from "../_shared/languages.ts";
+import {
+  allocateBudget,
+  BudgetReport,
+  estimateTokens,
+  fitHistory,
+  fitItems,
+  getModelBudget,
+  truncateToTokens,
+} from "./budget.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Keywords for detecting query intent (multilingual)
-const STOCK_KEYWORDS = [
-  // English
-  'stock', 'stocks', 'market', 'share', 'shares', 'nifty', 'sensex', 'dow', 'nasdaq', 's&p', 'trading', 'invest', 'portfolio', 'equity', 'bull', 'bear', 'ipo', 'dividend',
-  // Hindi/Hinglish
-  'शेयर', 'बाजार', 'निफ्टी', 'सेंसेक्स', 'स्टॉक', 'निवेश', 'share bazaar', 'stock market kya hai',
-  // Urdu
-  'حصص', 'مارکیٹ', 'سرمایہ کاری'
-];
-const GOLD_KEYWORDS = [
-  // English
-  'gold', 'gold price', 'gold rate', 'bullion', 'precious metal', '24k', '22k', '18k', 'karat', 'carat', 'jewel', 'jewelry',
-  // Hindi/Hinglish
-  'सोना', 'सोने का भाव', 'सोने की कीमत', 'gold rate kya hai', 'aaj sona kitne ka hai', 'sona', 'gold ka rate',
-  // Urdu
-  'سونا', 'سونے کی قیمت', 'طلائی'
-];
-const NEWS_KEYWORDS = [
-  // English
-  'news', 'latest', 'headlines', 'breaking', 'current events', 'happening', 'today', 'recent', 'update', 'updates',
-  // Hindi/Hinglish
-  'खबर', 'समाचार', 'ताजा खबर', 'ब्रेकिंग न्यूज', 'aaj ki khabar', 'latest news kya hai', 'kya hua aaj',
-  // Urdu
-  'خبر', 'تازہ خبریں', 'آج کی خبر'
-];
-const POLITICS_KEYWORDS = [
-  // English
-  'politics', 'political', 'election', 'government', 'parliament', 'congress', 'minister', 'president', 'prime minister', 'policy', 'vote', 'voting', 'campaign', 'party', 'democrat', 'republican', 'bjp', 'legislation',
-  // Hindi/Hinglish
-  'राजनीति', 'चुनाव', 'सरकार', 'संसद', 'मंत्री', 'प्रधानमंत्री', 'मोदी', 'राहुल', 'election kab hai', 'politics kya hai',
-  // Urdu
-  'سیاست', 'انتخابات', 'حکومت', 'پارلیمنٹ', 'وزیر اعظم'
-];
-
-interface QueryIntent {
-  needsStockData: boolean;
-  needsGoldData: boolean;
-  needsNewsData: boolean;
-  needsPoliticsData: boolean;
-  needsRAG: boolean;
-  detectedLanguage: string;
-}
-
-// Language detection based on script and common patterns
-function detectLanguage(text: string): string {
-  // Check for Devanagari script (Hindi)
-  if (/[\u0900-\u097F]/.test(text)) {
-    return 'hindi';
-  }
-  // Check for Arabic/Urdu script
-  if (/[\u0600-\u06FF\u0750-\u077F]/.test(text)) {
-    return 'urdu';
-  }
-  // Check for Hinglish patterns (Roman script with Hindi words/patterns)
-  const hinglishPatterns = /\b(kya|hai|hain|kaise|kab|kitna|kitne|aaj|kal|mein|ka|ki|ke|ko|se|par|aur|ya|nahi|nahin|bahut|accha|theek|sab|bhi|yeh|woh|kuch|kaisa|kaisi|kahan|kyun|abhi|phir|lekin|magar|toh|na|ji|haan|arre|yaar|bhai|dost)\b/i;
-  if (hinglishPatterns.test(text)) {
-    return 'hinglish';
-  }
-  return 'english';
-}
-
-function detectIntent(query: string): QueryIntent {
-  // STRICT RAG MODE: All queries use RAG only, no live data APIs
-  return {
-    needsStockData: false,
-    needsGoldData: false,
-    needsNewsData: false,
-    needsPoliticsData: false,
-    needsRAG: true,
-    detectedLanguage: detectLanguage(query),
-  };
-}
-
-async function fetchStockData(supabaseUrl: string, supabaseKey: string): Promise<string> {
-  try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/stock-market`, {
-      headers: { Authorization: `Bearer ${supabaseKey}` },
-    });
-    const data = await response.json();
-    
-    if (data.success && data.data) {
-      const { indices, topGainers, topLosers } = data.data;
-      let summary = "\n\n📊 LIVE STOCK MARKET DATA:\n";
-      
-      if (indices?.length > 0) {
-        summary += "\nMajor Indices:\n";
-        indices.forEach((idx: any) => {
-          const arrow = idx.isPositive ? '↑' : '↓';
-          summary += `• ${idx.name}: ${idx.price} (${arrow} ${idx.changePercent}%)\n`;
-        });
-      }
-      
-      if (topGainers?.length > 0) {
-        summary += "\nTop Gainers:\n";
-        topGainers.slice(0, 3).forEach((stock: any) => {
-          summary += `• ${stock.symbol}: ${stock.price} (↑ ${stock.changePercent}%)\n`;
-        });
-      }
-      
-      if (topLosers?.length > 0) {
-        summary += "\nTop Losers:\n";
-        topLosers.slice(0, 3).forEach((stock: any) => {
-          summary += `• ${stock.symbol}: ${stock.price} (↓ ${stock.changePercent}%)\n`;
-        });
-      }
-      
-      summary += `\nLast Updated: ${new Date(data.data.lastUpdated).toLocaleString()}`;
-      return summary;
-    }
-    return "";
-  } catch (e) {
-    console.error("Error fetching stock data:", e);
-    return "";
-  }
-}
+const CHAT_MODEL = "google/gemini-3-flash-preview";
 
-async function fetchGoldData(supabaseUrl: string, supabaseKey: string): Promise<string> {
-  try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/gold-prices`, {
-      headers: { Authorization: `Bearer ${supabaseKey}` },
-    });
-    const data = await response.json();
-    
-    if (data.success && data.data) {
-      const { prices, pricePerOunceUSD, exchangeRate } = data.data;
-      let summary = "\n\n🥇 LIVE GOLD PRICES:\n";
-      summary += `\nInternational Price: $${pricePerOunceUSD}/oz\n`;
-      summary += `Exchange Rate: ₹${exchangeRate}/USD\n`;
-      summary += "\nIndian Gold Prices (per 10 grams):\n";
-      summary += `• 24K (Pure): ₹${prices['24K'].per10Grams}\n`;
-      summary += `• 22K: ₹${prices['22K'].per10Grams}\n`;
-      summary += `• 18K: ₹${prices['18K'].per10Grams}\n`;
-      summary += `\nLast Updated: ${new Date(data.data.lastUpdated).toLocaleString()}`;
-      return summary;
-    }
-    return "";
-  } catch (e) {
-    console.error("Error fetching gold data:", e);
-    return "";
-  }
-}
+// Unindexed documents are passed through whole, up to this many characters
+const MAX_DOCUMENT_CHARS = 5000;
+// Passage header ("[S3] [Passage 4, Page 2]") and separators
+const PASSAGE_OVERHEAD_TOKENS = 20;
 
-async function fetchNewsData(supabaseUrl: string, supabaseKey: string): Promise<string> {
-  try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/latest-news`, {
-      headers: { Authorization: `Bearer ${supabaseKey}` },
-    });
-    const data = await response.json();
-    
-    if (data.success && data.data?.articles) {
-      let summary = "\n\n📰 LATEST NEWS:\n";
-      data.data.articles.slice(0, 5).forEach((article: any, index: number) => {
-        summary += `\n${index + 1}. ${article.title}\n`;
-        if (article.description) {
-          summary += `   ${article.description.slice(0, 100)}...\n`;
-        }
-        summary += `   Source: ${article.source}\n`;
-      });
-      summary += `\nLast Updated: ${new Date(data.data.lastUpdated).toLocaleString()}`;
-      return summary;
-    }
-    return "";
-  } catch (e) {
-    console.error("Error fetching news data:", e);
-    return "";
-  }
-}
-
-async function fetchPoliticsData(supabaseUrl: string, supabaseKey: string): Promise<string> {
-  try {
-    const response = await fetch(`${supabaseUrl}/functions/v1/politics`, {
-      headers: { Authorization: `Bearer ${supabaseKey}` },
-    });
-    const data = await response.json();
-    
-    if (data.success && data.data?.articles) {
-      let summary = "\n\n🏛️ POLITICAL UPDATES:\n";
-      data.data.articles.slice(0, 5).forEach((article: any, index: number) => {
-        summary += `\n${index + 1}. ${article.title}\n`;
-        if (article.description) {
-          summary += `   ${article.description.slice(0, 100)}...\n`;
-        }
-        summary += `   Source: ${article.source} | Region: ${article.region}\n`;
-      });
-      summary += `\nLast Updated: ${new Date(data.data.lastUpdated).toLocaleString()}`;
-      return summary;
-    }
-    return "";
-  } catch (e) {
-    console.error("Error fetching politics data:", e);
-    return "";
-  }
-}
+// Fused retrieval hands this many candidates to the reranker, which keeps the best
+const RERANK_CANDIDATES = 16;
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -205,7 +53,7 @@ serve(async (req) => {
   }
 
   try {
-    const { messages, documents, languagePreference } = await req.json();
+    const { chatId, message, languagePreference } = await req.json();
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
     const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
@@ -213,82 +61,215 @@ serve(async (req) => {
     if (!LOVABLE_API_KEY) {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+    if (!chatId || typeof message !== "string" || !message.trim()) {
+      return new Response(
+        JSON.stringify({ error: "chatId and message are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Act as the caller so every lookup below is scoped by RLS
+    const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
 
-    // Get the latest user message for intent detection
-    const latestUserMessage = messages.filter((m: any) => m.role === 'user').pop();
-    const userQuery = latestUserMessage?.content || '';
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { data: chat } = await supabase
+      .from("chats")
+      .select("id, mode")
+      .eq("id", chatId)
+      .maybeSingle();
+
+    if (!chat) {
+      return new Response(
+        JSON.stringify({ error: "Chat not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const chatMode = chat.mode === "hybrid" ? "hybrid" : "strict";
+
+    const history = await loadChatHistory(supabase, chatId, message.trim());
+    // Older turns are replaced by the chat's rolling summary
+    const { summary, messages } = await loadChatMemory(supabase, chatId, history, LOVABLE_API_KEY);
+    const userQuery = message.trim();
+
+    // Follow-ups are rewritten into a standalone query for intent and retrieval
+    const searchQuery = await condenseQuery(messages.slice(0, -1), userQuery, LOVABLE_API_KEY);
+    if (searchQuery !== userQuery) {
+      console.log("Rewritten query:", searchQuery);
+    }
     
-    // Detect query intent (includes auto language detection)
-    const intent = detectIntent(userQuery);
+    // Detect query intent; the reply language follows what the user actually typed
+    const intent = classifyIntent(searchQuery);
+    const languageDetection = detectLanguage(userQuery);
+    const detectedLanguage = languageDetection.language;
     
-    // Override language if user has set a preference (not 'auto')
-    const effectiveLanguage = languagePreference && languagePreference !== 'auto' 
-      ? languagePreference 
-      : intent.detectedLanguage;
+    // Override language if user has set a preference (not 'auto' or an unknown code)
+    const effectiveLanguage = isLanguageCode(languagePreference)
+      ? languagePreference
+      : detectedLanguage;
     
-    console.log("Detected intent:", intent);
+    console.log("Detected intent:", intent.intents, intent.scores, "language:", languageDetection);
     console.log("Language preference:", languagePreference, "-> Effective:", effectiveLanguage);
 
-    // Fetch live data based on intent
-    const liveDataPromises: Promise<string>[] = [];
     const dataSources: string[] = [];
-    
-    if (intent.needsStockData && SUPABASE_URL && SUPABASE_ANON_KEY) {
-      liveDataPromises.push(fetchStockData(SUPABASE_URL, SUPABASE_ANON_KEY));
-      dataSources.push("Live Stock Market API");
+
+    // Hybrid chats may pull live market, gold, news and politics data through
+    // tools the router model picks; strict chats answer from documents only
+    let toolCalls: ToolCall[] = [];
+    let liveResults: ToolResult[] = [];
+    if (chatMode === "hybrid") {
+      // The classifier stands in when the router model is unavailable
+      toolCalls = (await routeTools(searchQuery, LOVABLE_API_KEY)) ?? intentToolCalls(intent.intents);
+      console.log("Tool calls:", JSON.stringify(toolCalls));
+      liveResults = await runTools(toolCalls, SUPABASE_URL, SUPABASE_ANON_KEY);
     }
-    
-    if (intent.needsGoldData && SUPABASE_URL && SUPABASE_ANON_KEY) {
-      liveDataPromises.push(fetchGoldData(SUPABASE_URL, SUPABASE_ANON_KEY));
-      dataSources.push("Live Gold Price API");
+
+    // A chat pinned to specific documents only searches those
+    const scopedDocumentIds = await fetchChatDocumentIds(supabase, chatId);
+    if (scopedDocumentIds) {
+      console.log(`Chat scoped to ${scopedDocumentIds.length} documents`);
     }
-    
-    if (intent.needsNewsData && SUPABASE_URL && SUPABASE_ANON_KEY) {
-      liveDataPromises.push(fetchNewsData(SUPABASE_URL, SUPABASE_ANON_KEY));
-      dataSources.push("Live News API");
+
+    // The question is also searched in the languages the documents are written
+    // in, so a Hindi question finds English passages and vice versa
+    let queryTranslations: QueryTranslation[] = [];
+    try {
+      const documentLanguages = await fetchDocumentLanguages(supabase, scopedDocumentIds);
+      queryTranslations = await translateQuery(searchQuery, detectedLanguage, documentLanguages, LOVABLE_API_KEY);
+    } catch (e) {
+      console.error("Error translating query:", e);
     }
-    
-    if (intent.needsPoliticsData && SUPABASE_URL && SUPABASE_ANON_KEY) {
-      liveDataPromises.push(fetchPoliticsData(SUPABASE_URL, SUPABASE_ANON_KEY));
-      dataSources.push("Live Politics API");
+    if (queryTranslations.length > 0) {
+      console.log("Query translations:", JSON.stringify(queryTranslations));
     }
-
-    // Wait for all live data to be fetched
-    const liveDataResults = await Promise.all(liveDataPromises);
-    const liveDataContext = liveDataResults.filter(d => d).join('\n');
-
-    // Build document context for RAG if needed or if documents exist
-    let documentContext = "";
-    if (documents && documents.length > 0) {
-      documentContext = "\n\n--- UPLOADED DOCUMENTS ---\n";
-      documents.forEach((doc: { name: string; content: string }, index: number) => {
-        if (doc.content) {
-          documentContext += `\nDocument ${index + 1}: "${doc.name}"\nContent:\n${doc.content.slice(0, 5000)}\n---\n`;
-        }
+    const translatedQueries = queryTranslations.map((translation) => translation.text);
+
+    // Retrieve the most relevant passages from the caller's indexed documents
+    let retrievedChunks: RetrievedChunk[] = [];
+    try {
+      const candidates = await retrieveChunks(supabase, searchQuery, LOVABLE_API_KEY, {
+        topK: RERANK_CANDIDATES,
+        documentIds: scopedDocumentIds,
+        translations: translatedQueries,
       });
-      if (!dataSources.includes("Uploaded Documents")) {
-        dataSources.push("Uploaded Documents (RAG)");
+      retrievedChunks = await rerankChunks(
+        [searchQuery, ...translatedQueries],
+        candidates,
+        createReranker(Deno.env.get("RERANKER"), LOVABLE_API_KEY),
+      );
+    } catch (e) {
+      console.error("Error retrieving chunks:", e);
+    }
+    console.log(`Retrieved ${retrievedChunks.length} chunks`);
+
+    // Totals, averages and filters over the documents' tables are computed
+    // exactly rather than left to the model's arithmetic
+    let tableResults: TableResult[] = [];
+    try {
+      const { tables, total } = await fetchDocumentTables(supabase, scopedDocumentIds);
+      if (total > tables.length) {
+        console.log(`Listing ${tables.length} of ${total} tables; ${total - tables.length} from older documents left out`);
       }
+      if (tables.length > 0) {
+        const tableCalls = await planTableQueries(searchQuery, tables, LOVABLE_API_KEY, total - tables.length);
+        console.log("Table queries:", JSON.stringify(tableCalls));
+        tableResults = await runTableQueries(supabase, tableCalls, tables);
+      }
+    } catch (e) {
+      console.error("Error computing table results:", e);
+    }
+
+    // Documents that have not been chunked yet are passed through whole
+    let unindexedDocuments: StoredDocument[] = [];
+    try {
+      unindexedDocuments = await fetchUnindexedDocuments(supabase, scopedDocumentIds);
+    } catch (e) {
+      console.error("Error loading unindexed documents:", e);
     }
 
     // Build the system prompt with multilingual support
-    const languageInstructions = {
-      english: "Respond in English.",
-      hindi: "हिंदी में जवाब दें। (Respond in Hindi using Devanagari script.)",
-      hinglish: "Hinglish mein jawab do - Roman script mein Hindi/English mix use karo. (Respond in Hinglish using Roman script with Hindi-English mix.)",
-      urdu: "اردو میں جواب دیں۔ (Respond in Urdu using Arabic script.)"
-    };
+    const responseLanguage = getLanguage(effectiveLanguage);
+    const supportedLanguages = LANGUAGES
+      .map((language) => language.nativeLabel === language.label ? language.label : `${language.label} (${language.nativeLabel})`)
+      .join(", ");
+
+    const languageSection = `LANGUAGE INSTRUCTION:
+🌐 Response language: ${effectiveLanguage.toUpperCase()}
+${responseLanguage.instruction}`;
+
+    const languageRules = `IMPORTANT LANGUAGE RULES:
+1. ALWAYS respond in the specified language (${effectiveLanguage.toUpperCase()})
+2. Supported languages: ${supportedLanguages}
+3. Keep the "No relevant information found in the knowledge base." message in English regardless of language preference`;
+
+    const summarySection = summary ? `
+--- CONVERSATION SUMMARY (earlier turns) ---
+${summary}
+--- END OF SUMMARY ---
+Use the summary only to follow the conversation. It is NOT a source of truth for answers.
+` : "";
+
+    // Built once empty to measure the fixed part, then with the fitted context
+    const buildSystemPrompt = (documentContext: string, liveContext: string) => {
+      const hasDocuments = documentContext.trim().length > 0;
+
+      if (chatMode === "hybrid") {
+        return `You are FS RAG, a Retrieval-Augmented Generation assistant in HYBRID mode. You answer from the user's uploaded documents and from live data fetched for this question.
+
+${languageSection}
+
+⚠️ HYBRID MODE RULES - YOU MUST FOLLOW THESE EXACTLY:
+1. You may ONLY use information from the UPLOADED DOCUMENTS and the LIVE DATA provided below
+2. Prefer the documents for anything they cover; use live data for current prices, markets, news and politics
+3. DO NOT use general knowledge or pretrained knowledge, and NEVER make up figures
+4. Live data is only as current as its fetch time - mention it when quoting prices or headlines
+5. If neither the documents nor the live data answer the question, you MUST respond with EXACTLY:
+   "No relevant information found in the knowledge base."
+6. Every claim MUST have a direct quote from a document or live-data source as evidence
+
+${languageRules}
+${summarySection}
+${hasDocuments ? `
+--- UPLOADED DOCUMENTS ---
+${documentContext}
+--- END OF DOCUMENTS ---
+` : `
+(No relevant document passages were found for this question.)
+`}
+${liveContext ? `
+--- LIVE DATA ---
+${liveContext}
+--- END OF LIVE DATA ---
+` : `
+(No live data was fetched for this question.)
+`}
 
-    const langInstruction = languageInstructions[effectiveLanguage as keyof typeof languageInstructions] || languageInstructions.english;
+RESPONSE FORMAT (only if relevant information IS found):
+Start with:
+📌 **Data Source:** followed by the sources you used: "Uploaded Documents (RAG)" and/or the live-data source names (e.g. "Live Stock Market API")
 
-    // Check if documents are available
-    const hasDocuments = documents && documents.length > 0 && documents.some((doc: { content: string }) => doc.content && doc.content.trim().length > 0);
+Then provide your answer followed by the evidence block.
 
-    const systemPrompt = `You are FS RAG, a STRICT Retrieval-Augmented Generation assistant. You ONLY answer questions based on the uploaded documents provided below.
+${EVIDENCE_INSTRUCTIONS}
 
-LANGUAGE INSTRUCTION:
-🌐 Response language: ${effectiveLanguage.toUpperCase()}
-${langInstruction}
+REMEMBER: If neither the documents nor the live data answer the question, respond ONLY with:
+"No relevant information found in the knowledge base." (no evidence block)`;
+      }
+
+      return `You are FS RAG, a STRICT Retrieval-Augmented Generation assistant. You ONLY answer questions based on the uploaded documents provided below.
+
+${languageSection}
 
 ⚠️ CRITICAL STRICT RAG MODE RULES - YOU MUST FOLLOW THESE EXACTLY:
 1. You may ONLY use information from the UPLOADED DOCUMENTS provided below
@@ -301,11 +282,8 @@ ${langInstruction}
 7. NEVER say "based on my knowledge" or similar phrases
 8. Every claim MUST have a direct quote from the documents as evidence
 
-IMPORTANT LANGUAGE RULES:
-1. ALWAYS respond in the specified language (${effectiveLanguage.toUpperCase()})
-2. Supported languages: English, Hindi (हिंदी), Hinglish (Roman Hindi), Urdu (اردو)
-3. Keep the "No relevant information found in the knowledge base." message in English regardless of language preference
-
+${languageRules}
+${summarySection}
 ${hasDocuments ? `
 --- UPLOADED DOCUMENTS (YOUR ONLY SOURCE OF TRUTH) ---
 ${documentContext}
@@ -320,18 +298,126 @@ RESPONSE FORMAT (only if relevant information IS found in documents):
 Start with:
 📌 **Data Source:** Uploaded Documents (RAG)
 
-Then provide your answer followed by:
-
-Evidence:
-- Document: [exact document name]
-- Page/Section: [if available]
-- Source text: "[exact quote from document - REQUIRED]"
+Then provide your answer followed by the evidence block.
 
-Confidence:
-[High/Medium/Low] - based on how directly the evidence supports the answer
+${EVIDENCE_INSTRUCTIONS}
 
 REMEMBER: If you cannot find the answer in the uploaded documents, respond ONLY with:
-"No relevant information found in the knowledge base."`;
+"No relevant information found in the knowledge base." (no evidence block)`;
+    };
+
+    // Fit passages, documents, history and live data into the model's token
+    // budget; the instructions and summary are charged first
+    const budget = getModelBudget(CHAT_MODEL, Deno.env.get("PROMPT_TOKEN_BUDGET"));
+    const fixedTokens = estimateTokens(buildSystemPrompt("", ""));
+    const chunkTokens = (chunk: RetrievedChunk) => estimateTokens(chunk.content) + PASSAGE_OVERHEAD_TOKENS;
+    const documentTokens = (doc: StoredDocument) => estimateTokens(doc.content) + PASSAGE_OVERHEAD_TOKENS;
+    const tableTokens = (result: TableResult) => estimateTokens(result.content) + PASSAGE_OVERHEAD_TOKENS;
+    const liveDataTokens = (result: ToolResult) => estimateTokens(result.content) + PASSAGE_OVERHEAD_TOKENS;
+    const passedDocuments = unindexedDocuments.map((doc) => ({ ...doc, content: doc.content.slice(0, MAX_DOCUMENT_CHARS) }));
+
+    const requested = {
+      documents: tableResults.reduce((sum, t) => sum + tableTokens(t), 0)
+        + retrievedChunks.reduce((sum, c) => sum + chunkTokens(c), 0)
+        + passedDocuments.reduce((sum, d) => sum + documentTokens(d), 0),
+      history: messages.reduce((sum, m) => sum + estimateTokens(m.content), 0),
+      liveData: liveResults.reduce((sum, r) => sum + liveDataTokens(r), 0),
+    };
+    const allocation = allocateBudget(budget, fixedTokens, requested);
+
+    // Computed table results are small and answer the question directly, so
+    // they are fitted first; chunks arrive best first, so the least relevant
+    // are dropped first
+    const fittedTables = fitItems(tableResults, allocation.documents, tableTokens);
+    const fittedChunks = fitItems(retrievedChunks, allocation.documents - fittedTables.used, chunkTokens);
+    const fittedDocuments = fitItems(
+      passedDocuments,
+      allocation.documents - fittedTables.used - fittedChunks.used,
+      documentTokens,
+      (doc, maxTokens) => ({ ...doc, content: truncateToTokens(doc.content, maxTokens - PASSAGE_OVERHEAD_TOKENS) }),
+    );
+    const fittedHistory = fitHistory(messages, allocation.history);
+    const fittedLiveData = fitItems(
+      liveResults,
+      allocation.liveData,
+      liveDataTokens,
+      (result, maxTokens) => ({ ...result, content: truncateToTokens(result.content, maxTokens - PASSAGE_OVERHEAD_TOKENS) }),
+    );
+
+    const promptChunks = fittedChunks.kept;
+    const promptDocuments = fittedDocuments.kept;
+    const promptTables = fittedTables.kept;
+    const promptLiveData = fittedLiveData.kept;
+
+    let documentContext = "";
+    if (promptChunks.length > 0) {
+      documentContext += "\n\n--- RETRIEVED PASSAGES ---\n" + buildChunkContext(promptChunks);
+    }
+    if (promptDocuments.length > 0) {
+      documentContext += "\n\n--- UPLOADED DOCUMENTS ---\n";
+      promptDocuments.forEach((doc, index) => {
+        const sourceId = sourceLabel(promptChunks.length + index);
+        documentContext += `\n[${sourceId}] Document ${index + 1}: "${doc.name}"\nContent:\n${doc.content}\n---\n`;
+      });
+    }
+    if (promptTables.length > 0) {
+      documentContext += "\n\n--- COMPUTED TABLE RESULTS (exact calculations over the documents' tables; use these figures instead of calculating yourself, and say when a result is marked PARTIAL) ---\n";
+      promptTables.forEach((result, index) => {
+        const sourceId = sourceLabel(promptChunks.length + promptDocuments.length + index);
+        documentContext += `\n[${sourceId}] ${result.documentName}, ${result.range}\n${result.content}\n---\n`;
+      });
+    }
+    if (documentContext) {
+      dataSources.push("Uploaded Documents (RAG)");
+    }
+
+    let liveContext = "";
+    promptLiveData.forEach((result, index) => {
+      const sourceId = sourceLabel(promptChunks.length + promptDocuments.length + promptTables.length + index);
+      liveContext += `\n[${sourceId}] ${result.label} (fetched ${result.fetchedAt})\n${result.content}---\n`;
+      dataSources.push(result.label);
+    });
+
+    let sourceUrls = new Map<string, string>();
+    try {
+      sourceUrls = await fetchSourceUrls(supabase, [...new Set([
+        ...promptChunks.map((chunk) => chunk.document_id),
+        ...promptDocuments.map((doc) => doc.id),
+        ...promptTables.map((result) => result.documentId),
+      ])]);
+    } catch (e) {
+      console.error("Error loading document sources:", e);
+    }
+
+    const evidenceSources = buildEvidenceSources(promptChunks, promptDocuments, promptTables, promptLiveData, sourceUrls);
+    const systemPrompt = buildSystemPrompt(documentContext, liveContext);
+
+    const budgetReport: BudgetReport = {
+      model: CHAT_MODEL,
+      promptTokens: budget.promptTokens,
+      fixedTokens,
+      sections: {
+        documents: {
+          requested: requested.documents,
+          allocated: allocation.documents,
+          used: fittedTables.used + fittedChunks.used + fittedDocuments.used,
+          dropped: fittedTables.dropped + fittedChunks.dropped + fittedDocuments.dropped,
+        },
+        history: {
+          requested: requested.history,
+          allocated: allocation.history,
+          used: fittedHistory.used,
+          dropped: fittedHistory.dropped,
+        },
+        liveData: {
+          requested: requested.liveData,
+          allocated: allocation.liveData,
+          used: fittedLiveData.used,
+          dropped: fittedLiveData.dropped,
+        },
+      },
+    };
+    console.log("Token budget:", JSON.stringify(budgetReport));
 
     console.log("Calling AI gateway with hybrid context...");
     console.log("Data sources:", dataSources);
@@ -343,10 +429,10 @@ REMEMBER: If you cannot find the answer in the uploaded documents, respond ONLY
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
+        model: CHAT_MODEL,
         messages: [
           { role: "system", content: systemPrompt },
-          ...messages,
+          ...fittedHistory.kept,
         ],
         stream: true,
       }),
@@ -377,7 +463,28 @@ REMEMBER: If you cannot find the answer in the uploaded documents, respond ONLY
 
     console.log("Streaming response from AI gateway...");
 
-    return new Response(response.body, {
+    // Evidence is delivered as its own SSE event rather than parsed from the
+    // prose, after every quote has been checked against the cited text
+    const stream = createEvidenceStream(response.body!, evidenceSources, {
+      metadata: {
+        originalQuery: userQuery,
+        rewrittenQuery: searchQuery !== userQuery ? searchQuery : null,
+        queryTranslations,
+        budget: budgetReport,
+        mode: chatMode,
+        toolCalls,
+        tableResults: promptTables.map(({ tableName, documentName, calculation, result, range }) => ({
+          table: tableName,
+          document: documentName,
+          calculation,
+          result,
+          range,
+        })),
+        language: responseLanguage.code,
+      },
+      finalize: (payload) => verifyEvidence(supabase, payload, evidenceSources),
+    });
+    return new Response(stream, {
       headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
     });
   } catch (error) {
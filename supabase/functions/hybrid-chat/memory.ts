@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import type { ChatMessage } from "./history.ts";
+
+// Keeps long chats inside the context window: the most recent turns are sent
+// verbatim and everything older is folded into a rolling summary on the chat.
+
+// Always sent verbatim, including the current user message
+const KEEP_RECENT_MESSAGES = 8;
+// Older turns are summarized in batches rather than on every request
+const SUMMARIZE_BATCH = 6;
+const MAX_MESSAGE_CHARS = 2000;
+
+export interface ChatMemory {
+  summary: string | null;
+  messages: ChatMessage[];
+}
+
+interface ChatSummaryRow {
+  summary: string | null;
+  summary_message_count: number;
+}
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a user and a document Q&A assistant.
+Update the existing summary with the new messages.
+RULES:
+1. Keep facts, figures, names, dates and document names that were discussed, and the answers that were given
+2. Keep the user's stated goals and preferences
+3. Drop greetings and repetition
+4. Write at most 250 words as plain prose or short bullet points
+5. Output ONLY the updated summary`;
+
+async function summarize(previous: string | null, messages: ChatMessage[], apiKey: string): Promise<string> {
+  const transcript = messages
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, MAX_MESSAGE_CHARS)}`)
+    .join("\n\n");
+
+  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      model: "google/gemini-2.5-flash",
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        {
+          role: "user",
+          content: `EXISTING SUMMARY:\n${previous || "(none)"}\n\nNEW MESSAGES:\n${transcript}`,
+        },
+      ],
+      temperature: 0,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Summary API error:", response.status, errorText);
+    throw new Error(`Summarization failed: ${response.status}`);
+  }
+
+  const result = await response.json();
+  const summary = (result.choices?.[0]?.message?.content || "").trim();
+  if (!summary) {
+    throw new Error("Summarization returned no text");
+  }
+  return summary;
+}
+
+// Returns the summary plus the messages still to send verbatim, folding older
+// turns into the chat's summary first once enough have piled up. A failed
+// summarization just sends the unsummarized turns as they are.
+export async function loadChatMemory(
+  supabase: SupabaseClient,
+  chatId: string,
+  history: ChatMessage[],
+  apiKey: string,
+): Promise<ChatMemory> {
+  const { data, error } = await supabase
+    .from("chats")
+    .select("summary, summary_message_count")
+    .eq("id", chatId)
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to load chat summary: ${error.message}`);
+  }
+
+  const chat = data as ChatSummaryRow;
+  let summary = chat.summary?.trim() || null;
+  // Clamp in case messages were deleted after they were summarized
+  let summarizedCount = Math.min(chat.summary_message_count, history.length - 1);
+
+  const cutoff = history.length - KEEP_RECENT_MESSAGES;
+  const pending = history.slice(summarizedCount, Math.max(cutoff, summarizedCount));
+
+  if (pending.length >= SUMMARIZE_BATCH) {
+    try {
+      summary = await summarize(summary, pending, apiKey);
+      summarizedCount = cutoff;
+
+      const { error: updateError } = await supabase
+        .from("chats")
+        .update({
+          summary,
+          summary_message_count: summarizedCount,
+          summary_updated_at: new Date().toISOString(),
+        })
+        .eq("id", chatId);
+
+      if (updateError) {
+        console.error("Failed to save chat summary:", updateError);
+      } else {
+        console.log(`Summarized ${pending.length} older messages (${summarizedCount} total)`);
+      }
+    } catch (e) {
+      console.error("Error summarizing chat:", e);
+    }
+  }
+
+  return { summary, messages: history.slice(summarizedCount) };
+}
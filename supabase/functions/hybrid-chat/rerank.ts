@@ -0,0 +1,109 @@
+import { bestLexicalScore } from "../_shared/lexical.ts";
+
+// Second-stage scoring of retrieved passages against the query. The gateway
+// reranker asks the model to judge each passage (cross-encoder style); the
+// lexical reranker is deterministic and used for tests or when the gateway fails.
+
+export interface RerankPassage {
+  id: string;
+  content: string;
+}
+
+export interface RerankScore {
+  id: string;
+  // Relevance in [0, 1]
+  score: number;
+}
+
+export interface Reranker {
+  name: string;
+  // The user's query first, then any translations of it
+  rerank(queries: string[], passages: RerankPassage[]): Promise<RerankScore[]>;
+}
+
+export type RerankerName = "gateway" | "lexical";
+
+// Passages are trimmed so a full candidate list fits in one request
+const MAX_PASSAGE_CHARS = 800;
+
+const RERANK_PROMPT = `You are a search relevance judge. Rate how well each passage answers the query on a scale from 0 (irrelevant) to 10 (directly answers it).
+Judge meaning, not keyword overlap. The query may be followed by its translations on separate lines; passages may be in any of those languages.
+Reply with JSON only, in exactly this format: {"scores":[{"id":1,"score":7}]}`;
+
+export function createGatewayReranker(apiKey: string): Reranker {
+  return {
+    name: "gateway",
+    async rerank(queries, passages) {
+      if (passages.length === 0) return [];
+
+      const numbered = passages
+        .map((p, i) => `[${i + 1}]\n${p.content.slice(0, MAX_PASSAGE_CHARS)}`)
+        .join("\n\n");
+
+      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: "google/gemini-2.5-flash",
+          messages: [
+            { role: "system", content: RERANK_PROMPT },
+            { role: "user", content: `QUERY: ${queries.join("\n")}\n\nPASSAGES:\n${numbered}` },
+          ],
+          temperature: 0,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error("Rerank API error:", response.status, errorText);
+        throw new Error(`Rerank failed: ${response.status}`);
+      }
+
+      const result = await response.json();
+      const output: string = result.choices?.[0]?.message?.content || "";
+      const json = output.slice(output.indexOf("{"), output.lastIndexOf("}") + 1);
+      const parsed = JSON.parse(json) as { scores?: { id?: unknown; score?: unknown }[] };
+
+      const scores = new Map<number, number>();
+      (parsed.scores || []).forEach((entry) => {
+        const index = Number(entry.id) - 1;
+        const score = Number(entry.score);
+        if (Number.isInteger(index) && index >= 0 && index < passages.length && Number.isFinite(score)) {
+          scores.set(index, Math.min(Math.max(score / 10, 0), 1));
+        }
+      });
+
+      // Passages the model skipped are treated as irrelevant
+      return passages.map((p, i) => ({ id: p.id, score: scores.get(i) ?? 0 }));
+    },
+  };
+}
+
+// Term coverage and phrase matches against the best-matching query language
+// (see _shared/lexical.ts)
+export function createLexicalReranker(): Reranker {
+  return {
+    name: "lexical",
+    rerank(queries, passages) {
+      return Promise.resolve(passages.map((p) => ({ id: p.id, score: bestLexicalScore(queries, p.content) })));
+    },
+  };
+}
+
+// An unknown name is logged and the default used, so a bad RERANKER setting
+// cannot leave every chat without passages
+export function createReranker(name: string | undefined, apiKey: string): Reranker {
+  switch (name as RerankerName | undefined) {
+    case "lexical":
+      return createLexicalReranker();
+    case "gateway":
+    case undefined:
+      return createGatewayReranker(apiKey);
+    default:
+      console.error(`Unknown reranker "${name}", using gateway`);
+      return createGatewayReranker(apiKey);
+  }
+}
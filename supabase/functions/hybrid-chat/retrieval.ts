@@ -0,0 +1,309 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { embedTexts, toVectorLiteral } from "../_shared/embeddings.ts";
+import { formatTimestamp } from "../_shared/media.ts";
+import { sourceLabel } from "./evidence.ts";
+import { createLexicalReranker, type Reranker } from "./rerank.ts";
+
+interface ChunkRow {
+  id: string;
+  document_id: string;
+  document_name: string;
+  chunk_index: number;
+  page_number: number | null;
+  start_seconds: number | null;
+  end_seconds: number | null;
+  section: string | null;
+  content: string;
+}
+
+export interface RetrievedChunk extends ChunkRow {
+  // Cosine similarity from vector search, null if only matched lexically
+  similarity: number | null;
+  // BM25 score from full-text search, null if only matched semantically
+  bm25: number | null;
+  semantic_rank: number | null;
+  lexical_rank: number | null;
+  fused_score: number;
+  // Set by rerankChunks: relevance in [0, 1], 1-based position and which reranker scored it
+  rerank_score: number | null;
+  rerank_position: number | null;
+  reranker: string | null;
+}
+
+const DEFAULT_TOP_K = 8;
+const MIN_SIMILARITY = 0.2;
+// Each ranker contributes more candidates than we keep so fusion has room to reorder
+const CANDIDATES_PER_RANKER = 20;
+// Standard reciprocal rank fusion constant; damps the weight of top ranks
+const RRF_K = 60;
+// Reranked passages below this relevance are dropped...
+const MIN_RERANK_SCORE = 0.3;
+// ...but a few are always kept so the model can say the answer is not there
+const MIN_RERANK_KEEP = 2;
+
+export interface RetrievalOptions {
+  topK?: number;
+  // Restrict the search to these documents; null searches all of them
+  documentIds?: string[] | null;
+  // The query in other languages, each searched alongside the original
+  translations?: string[];
+}
+
+// Documents a chat is pinned to, or null when the chat may use every document
+export async function fetchChatDocumentIds(supabase: SupabaseClient, chatId: string): Promise<string[] | null> {
+  const { data, error } = await supabase
+    .from("chat_documents")
+    .select("document_id")
+    .eq("chat_id", chatId);
+
+  if (error) {
+    throw new Error(`Failed to load chat documents: ${error.message}`);
+  }
+
+  const ids = (data || []).map((row: { document_id: string }) => row.document_id);
+  return ids.length > 0 ? ids : null;
+}
+
+type SemanticRow = ChunkRow & { similarity: number };
+type LexicalRow = ChunkRow & { rank: number };
+
+// Merges ranked lists (one per query variant and ranker) by summing
+// 1 / (k + rank) for every list a chunk appears in. A chunk's reported
+// similarity, BM25 score and ranks are its best across the variants.
+export function reciprocalRankFusion(
+  semantic: SemanticRow[][],
+  lexical: LexicalRow[][],
+  topK: number,
+): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+  const entry = (row: ChunkRow) => {
+    const existing = fused.get(row.id);
+    if (existing) return existing;
+    const { id, document_id, document_name, chunk_index, page_number, start_seconds, end_seconds, section, content } = row;
+    const created: RetrievedChunk = {
+      id, document_id, document_name, chunk_index, page_number, start_seconds, end_seconds, section, content,
+      similarity: null,
+      bm25: null,
+      semantic_rank: null,
+      lexical_rank: null,
+      fused_score: 0,
+      rerank_score: null,
+      rerank_position: null,
+      reranker: null,
+    };
+    fused.set(row.id, created);
+    return created;
+  };
+
+  semantic.forEach((rows) => rows.forEach((row, i) => {
+    const chunk = entry(row);
+    chunk.similarity = Math.max(chunk.similarity ?? row.similarity, row.similarity);
+    chunk.semantic_rank = Math.min(chunk.semantic_rank ?? i + 1, i + 1);
+    chunk.fused_score += 1 / (RRF_K + i + 1);
+  }));
+  lexical.forEach((rows) => rows.forEach((row, i) => {
+    const chunk = entry(row);
+    chunk.bm25 = Math.max(chunk.bm25 ?? row.rank, row.rank);
+    chunk.lexical_rank = Math.min(chunk.lexical_rank ?? i + 1, i + 1);
+    chunk.fused_score += 1 / (RRF_K + i + 1);
+  }));
+
+  return [...fused.values()]
+    .sort((a, b) => b.fused_score - a.fused_score)
+    .slice(0, topK);
+}
+
+// One ranked list per query; the queries are embedded in a single request
+async function semanticSearch(
+  supabase: SupabaseClient,
+  queries: string[],
+  apiKey: string,
+  documentIds: string[] | null,
+): Promise<SemanticRow[][]> {
+  const embeddings = await embedTexts(queries, apiKey);
+  return Promise.all(embeddings.map(async (embedding) => {
+    const { data, error } = await supabase.rpc("match_document_chunks", {
+      query_embedding: toVectorLiteral(embedding),
+      match_count: CANDIDATES_PER_RANKER,
+      min_similarity: MIN_SIMILARITY,
+      filter_document_ids: documentIds,
+    });
+
+    if (error) {
+      throw new Error(`Chunk search failed: ${error.message}`);
+    }
+    return data || [];
+  }));
+}
+
+async function lexicalSearch(
+  supabase: SupabaseClient,
+  queries: string[],
+  documentIds: string[] | null,
+): Promise<LexicalRow[][]> {
+  return Promise.all(queries.map(async (query) => {
+    const { data, error } = await supabase.rpc("search_document_chunks", {
+      query_text: query,
+      match_count: CANDIDATES_PER_RANKER,
+      filter_document_ids: documentIds,
+    });
+
+    if (error) {
+      throw new Error(`Full-text search failed: ${error.message}`);
+    }
+    return data || [];
+  }));
+}
+
+// Runs vector and BM25 search over the caller's chunks (RLS-scoped client) for
+// the query and each of its translations, and fuses all the rankings. Either
+// search may fail on its own without losing the other.
+export async function retrieveChunks(
+  supabase: SupabaseClient,
+  query: string,
+  apiKey: string,
+  options: RetrievalOptions = {},
+): Promise<RetrievedChunk[]> {
+  if (!query.trim()) return [];
+
+  const documentIds = options.documentIds ?? null;
+  const queries = [query, ...(options.translations ?? []).filter((text) => text.trim())];
+  const [semantic, lexical] = await Promise.allSettled([
+    semanticSearch(supabase, queries, apiKey, documentIds),
+    lexicalSearch(supabase, queries, documentIds),
+  ]);
+
+  if (semantic.status === "rejected" && lexical.status === "rejected") {
+    throw semantic.reason;
+  }
+  if (semantic.status === "rejected") console.error("Semantic search failed:", semantic.reason);
+  if (lexical.status === "rejected") console.error("Lexical search failed:", lexical.reason);
+
+  const semanticLists = semantic.status === "fulfilled" ? semantic.value : [];
+  const lexicalLists = lexical.status === "fulfilled" ? lexical.value : [];
+  const count = (lists: unknown[][]) => lists.reduce((sum, rows) => sum + rows.length, 0);
+  console.log(
+    `Searched ${queries.length} query variants; semantic candidates: ${count(semanticLists)}, lexical candidates: ${count(lexicalLists)}`,
+  );
+
+  return reciprocalRankFusion(semanticLists, lexicalLists, options.topK ?? DEFAULT_TOP_K);
+}
+
+// Rescores retrieved chunks against the query and its translations, drops
+// low-relevance ones and returns the best topK in reranked order. Falls back
+// to the lexical reranker if the configured one fails, and to retrieval order
+// if both do.
+export async function rerankChunks(
+  queries: string[],
+  chunks: RetrievedChunk[],
+  reranker: Reranker,
+  topK = DEFAULT_TOP_K,
+): Promise<RetrievedChunk[]> {
+  if (chunks.length === 0) return chunks;
+
+  const passages = chunks.map((c) => ({ id: c.id, content: c.content }));
+  let used = reranker;
+  let scores;
+  try {
+    scores = await reranker.rerank(queries, passages);
+  } catch (e) {
+    console.error(`Reranker ${reranker.name} failed, using lexical fallback:`, e);
+    used = createLexicalReranker();
+    try {
+      scores = await used.rerank(queries, passages);
+    } catch (fallbackError) {
+      console.error("Lexical reranker failed:", fallbackError);
+      return chunks.slice(0, topK);
+    }
+  }
+
+  const scoreById = new Map(scores.map((s) => [s.id, s.score]));
+  const ranked = chunks
+    .map((c) => ({ ...c, rerank_score: scoreById.get(c.id) ?? 0, reranker: used.name }))
+    .sort((a, b) => b.rerank_score - a.rerank_score || b.fused_score - a.fused_score);
+
+  const relevant = ranked.filter((c) => c.rerank_score >= MIN_RERANK_SCORE);
+  const kept = (relevant.length >= MIN_RERANK_KEEP ? relevant : ranked.slice(0, MIN_RERANK_KEEP)).slice(0, topK);
+  console.log(`Reranked ${chunks.length} chunks with ${used.name}, kept ${kept.length}`);
+
+  return kept.map((c, i) => ({ ...c, rerank_position: i + 1 }));
+}
+
+export interface StoredDocument {
+  id: string;
+  name: string;
+  content: string;
+}
+
+// Documents with text but no chunks yet (uploaded before indexing existed or
+// whose indexing failed); these are passed through whole as a fallback
+export async function fetchUnindexedDocuments(
+  supabase: SupabaseClient,
+  documentIds: string[] | null = null,
+): Promise<StoredDocument[]> {
+  let query = supabase
+    .from("documents")
+    .select("id, name, content, document_chunks(count)")
+    .not("content", "is", null);
+  if (documentIds) {
+    query = query.in("id", documentIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`);
+  }
+
+  const rows = (data || []) as (StoredDocument & { document_chunks: { count: number }[] })[];
+  return rows
+    .filter((doc) => (doc.document_chunks?.[0]?.count ?? 0) === 0 && doc.content.trim().length > 0)
+    .map(({ id, name, content }) => ({ id, name, content }));
+}
+
+// Original addresses of documents added from the web, so citations can link
+// back to the page rather than only to the stored snapshot
+export async function fetchSourceUrls(supabase: SupabaseClient, documentIds: string[]): Promise<Map<string, string>> {
+  const sourceUrls = new Map<string, string>();
+  if (documentIds.length === 0) return sourceUrls;
+
+  const { data, error } = await supabase
+    .from("documents")
+    .select("id, source_url")
+    .in("id", documentIds)
+    .not("source_url", "is", null);
+
+  if (error) {
+    throw new Error(`Failed to load document sources: ${error.message}`);
+  }
+
+  (data || []).forEach((doc: { id: string; source_url: string }) => sourceUrls.set(doc.id, doc.source_url));
+  return sourceUrls;
+}
+
+// Formats retrieved passages for the system prompt, grouped by source document.
+// Each passage is labelled with its source id (by relevance rank) for citations.
+export function buildChunkContext(chunks: RetrievedChunk[]): string {
+  // Keyed by id, as two uploads may share a file name
+  const byDocument = new Map<string, { chunk: RetrievedChunk; sourceId: string }[]>();
+  chunks.forEach((chunk, i) => {
+    const list = byDocument.get(chunk.document_id) || [];
+    list.push({ chunk, sourceId: sourceLabel(i) });
+    byDocument.set(chunk.document_id, list);
+  });
+
+  let context = "";
+  byDocument.forEach((docChunks) => {
+    context += `\nDocument: "${docChunks[0].chunk.document_name}"\n`;
+    docChunks
+      .sort((a, b) => a.chunk.chunk_index - b.chunk.chunk_index)
+      .forEach(({ chunk, sourceId }) => {
+        const page = chunk.page_number ? `, Page ${chunk.page_number}` : "";
+        const time = chunk.start_seconds !== null ? `, ${formatTimestamp(chunk.start_seconds)}` : "";
+        const section = chunk.section ? `, ${chunk.section}` : "";
+        context += `[${sourceId}] [Passage ${chunk.chunk_index + 1}${page}${time}${section}]\n${chunk.content}\n`;
+      });
+    context += "---\n";
+  });
+  return context;
+}
@@ -0,0 +1,56 @@
+import type { ChatMessage } from "./history.ts";
+
+// Condenses a follow-up ("and what about the second quarter?") into a
+// standalone query using the earlier turns, so intent detection and retrieval
+// see what the user is actually asking about.
+
+// Only the most recent turns matter for resolving references
+const MAX_HISTORY_MESSAGES = 6;
+const MAX_MESSAGE_CHARS = 500;
+
+const REWRITE_PROMPT = `You rewrite the user's latest message into a standalone search query for a document search engine.
+RULES:
+1. Resolve pronouns and references ("it", "that", "the second one", "uska", "woh") using the conversation
+2. Keep names, numbers, dates, ticker symbols and quoted phrases exactly as written
+3. Keep the same language and script as the latest message
+4. If the latest message is already standalone, return it unchanged
+5. Output ONLY the rewritten query - no quotes, labels or explanation`;
+
+export async function condenseQuery(history: ChatMessage[], latest: string, apiKey: string): Promise<string> {
+  const previous = history.slice(-MAX_HISTORY_MESSAGES);
+  if (previous.length === 0) return latest;
+
+  const conversation = previous
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content.slice(0, MAX_MESSAGE_CHARS)}`)
+    .join("\n");
+
+  try {
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          { role: "system", content: REWRITE_PROMPT },
+          { role: "user", content: `CONVERSATION:\n${conversation}\n\nLATEST MESSAGE:\n${latest}` },
+        ],
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Query rewrite API error:", response.status, await response.text());
+      return latest;
+    }
+
+    const result = await response.json();
+    const rewritten = (result.choices?.[0]?.message?.content || "").trim().replace(/^["']|["']$/g, "");
+    return rewritten || latest;
+  } catch (e) {
+    console.error("Error rewriting query:", e);
+    return latest;
+  }
+}
@@ -0,0 +1,304 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { LANGUAGES } from "../_shared/languages.ts";
+import type { SheetRow } from "../_shared/spreadsheet.ts";
+import {
+  describeQuery,
+  type ExtractedTable,
+  FILTER_OPERATORS,
+  type FilterOperator,
+  formatNumber,
+  formatTableResult,
+  MAX_TABLE_ROWS,
+  runTableQuery,
+  TABLE_OPERATIONS,
+  type TableColumn,
+  type TableFilter,
+  type TableOperation,
+  type TableQuery,
+} from "../_shared/tables.ts";
+
+// Table calculations. When the searched documents contain tables, a planner
+// model sees their names and columns and may call query_table with an
+// operation, a column and filters. The calculation itself runs over the stored
+// rows, so figures are exact, and each result becomes a citable [S#] source
+// that names the cells it read.
+
+export interface StoredTable {
+  id: string;
+  documentId: string;
+  documentName: string;
+  name: string;
+  pageNumber: number | null;
+  columns: TableColumn[];
+  rowCount: number;
+  // Only the first MAX_TABLE_ROWS rows were stored
+  truncated: boolean;
+}
+
+export interface TableCall {
+  tableId: string;
+  query: TableQuery;
+}
+
+export interface TableResult {
+  tableId: string;
+  documentId: string;
+  documentName: string;
+  tableName: string;
+  pageNumber: number | null;
+  // e.g. "sum of Amount where Region = "North""
+  calculation: string;
+  // The computed value, or the number of matching rows for a list; marked
+  // partial when the table was cut short when stored
+  result: string;
+  // Sheet and cells read, e.g. "Sales!B2:B13"
+  range: string;
+  content: string;
+}
+
+// Keeps the planner prompt short when a user has many spreadsheets
+const MAX_TABLES = 40;
+const MAX_TABLE_CALLS = 4;
+// Columns listed per table in the planner prompt
+const MAX_PROMPT_COLUMNS = 30;
+
+const TABLE_TOOL = {
+  type: "function",
+  function: {
+    name: "query_table",
+    description: "Computes an exact total, average, minimum, maximum or count over a column of one of the user's tables, or lists the rows matching filters.",
+    parameters: {
+      type: "object",
+      properties: {
+        table: { type: "string", description: "Table id from the list, e.g. T1" },
+        operation: { type: "string", enum: TABLE_OPERATIONS },
+        column: { type: "string", description: "Column to aggregate, as listed; not needed for count or list" },
+        filters: {
+          type: "array",
+          description: "Conditions every counted row must meet",
+          items: {
+            type: "object",
+            properties: {
+              column: { type: "string" },
+              operator: { type: "string", enum: FILTER_OPERATORS },
+              value: { type: "string" },
+            },
+            required: ["column", "operator", "value"],
+          },
+        },
+      },
+      required: ["table", "operation"],
+    },
+  },
+};
+
+const PLANNER_PROMPT = `You decide whether answering the user's question needs a calculation over their tables.
+RULES:
+1. Call query_table for totals, averages, minimums, maximums, counts, or rows meeting conditions
+2. Questions a passage of text can answer need no calculation - call nothing
+3. Use table ids and column names exactly as listed; filter values compare case-insensitively, numbers numerically
+4. The question may be in ${LANGUAGES.map((language) => language.label).join(", ")}; filter values must be written as they appear in the table`;
+
+function tableRef(index: number): string {
+  return `T${index + 1}`;
+}
+
+export interface DocumentTables {
+  // The most recently stored, at most MAX_TABLES
+  tables: StoredTable[];
+  // All tables in the searched documents, including those left out
+  total: number;
+}
+
+// Tables in the documents a chat searches, without their rows. Past the cap,
+// tables from the most recently processed documents are kept.
+export async function fetchDocumentTables(
+  supabase: SupabaseClient,
+  documentIds: string[] | null,
+): Promise<DocumentTables> {
+  let query = supabase
+    .from("document_tables")
+    .select("id, document_id, name, page_number, columns, row_count, truncated, documents(name)", { count: "exact" })
+    .order("created_at", { ascending: false })
+    .order("document_id")
+    .order("table_index")
+    .limit(MAX_TABLES);
+  if (documentIds) {
+    query = query.in("document_id", documentIds);
+  }
+
+  const { data, count, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load document tables: ${error.message}`);
+  }
+
+  type TableRow = {
+    id: string;
+    document_id: string;
+    name: string;
+    page_number: number | null;
+    columns: TableColumn[];
+    row_count: number;
+    truncated: boolean;
+    documents: { name: string } | null;
+  };
+  const tables = ((data || []) as TableRow[]).map((row) => ({
+    id: row.id,
+    documentId: row.document_id,
+    documentName: row.documents?.name ?? "Document",
+    name: row.name,
+    pageNumber: row.page_number,
+    columns: row.columns,
+    rowCount: row.row_count,
+    truncated: row.truncated,
+  }));
+  return { tables, total: count ?? tables.length };
+}
+
+function parseFilters(value: unknown): TableFilter[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((filter) =>
+      filter && typeof filter.column === "string" && FILTER_OPERATORS.includes(filter.operator) && filter.value != null
+    )
+    .map((filter) => ({
+      column: filter.column,
+      operator: filter.operator as FilterOperator,
+      value: String(filter.value),
+    }));
+}
+
+// Asks the model which calculations the question needs. Any failure returns
+// no calls, so the answer falls back to the retrieved passages. unlisted is the
+// number of tables left out at the cap.
+export async function planTableQueries(
+  query: string,
+  tables: StoredTable[],
+  apiKey: string,
+  unlisted = 0,
+): Promise<TableCall[]> {
+  if (tables.length === 0) return [];
+
+  const tableList = tables.map((table, i) => {
+    const columns = table.columns.slice(0, MAX_PROMPT_COLUMNS).map((column) => column.name).join(", ");
+    const where = table.pageNumber !== null ? `, page ${table.pageNumber}` : "";
+    const rows = table.truncated ? `${table.rowCount} rows, first ${MAX_TABLE_ROWS} stored` : `${table.rowCount} rows`;
+    return `${tableRef(i)}: "${table.name}" in ${table.documentName}${where} (${rows}) - columns: ${columns}`;
+  }).join("\n") + (unlisted > 0 ? `\n(${unlisted} tables from older documents are not listed)` : "");
+
+  try {
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          { role: "system", content: `${PLANNER_PROMPT}\n\nTABLES:\n${tableList}` },
+          { role: "user", content: query },
+        ],
+        tools: [TABLE_TOOL],
+        tool_choice: "auto",
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Table planner API error:", response.status, await response.text());
+      return [];
+    }
+
+    const result = await response.json();
+    const toolCalls: { function?: { name?: string; arguments?: string } }[] =
+      result.choices?.[0]?.message?.tool_calls || [];
+
+    const calls = new Map<string, TableCall>();
+    toolCalls.forEach((call) => {
+      if (call.function?.name !== "query_table") return;
+
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(call.function.arguments || "{}");
+      } catch {
+        console.error("Could not parse table query arguments:", call.function.arguments);
+        return;
+      }
+
+      const table = tables.find((_, i) => tableRef(i) === String(args.table ?? "").trim().toUpperCase());
+      const operation = String(args.operation ?? "") as TableOperation;
+      if (!table || !TABLE_OPERATIONS.includes(operation)) return;
+
+      const tableCall = {
+        tableId: table.id,
+        query: {
+          operation,
+          column: typeof args.column === "string" && args.column.trim() ? args.column : null,
+          filters: parseFilters(args.filters),
+        },
+      };
+      calls.set(JSON.stringify(tableCall), tableCall);
+    });
+    return [...calls.values()].slice(0, MAX_TABLE_CALLS);
+  } catch (e) {
+    console.error("Error planning table queries:", e);
+    return [];
+  }
+}
+
+// Loads the rows of the tables the calls need and runs each calculation;
+// calls naming unknown columns are logged and left out
+export async function runTableQueries(
+  supabase: SupabaseClient,
+  calls: TableCall[],
+  tables: StoredTable[],
+): Promise<TableResult[]> {
+  if (calls.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("document_tables")
+    .select("id, rows")
+    .in("id", [...new Set(calls.map((call) => call.tableId))]);
+
+  if (error) {
+    throw new Error(`Failed to load table rows: ${error.message}`);
+  }
+  const rowsById = new Map(((data || []) as { id: string; rows: SheetRow[] }[]).map((row) => [row.id, row.rows]));
+
+  const results: TableResult[] = [];
+  calls.forEach((call) => {
+    const stored = tables.find((table) => table.id === call.tableId);
+    const rows = rowsById.get(call.tableId);
+    if (!stored || !rows) return;
+
+    const table: ExtractedTable = {
+      name: stored.name,
+      pageNumber: stored.pageNumber,
+      columns: stored.columns,
+      rows,
+      rowCount: stored.rowCount,
+    };
+    try {
+      const result = runTableQuery(table, call.query);
+      const value = result.operation === "list"
+        ? `${result.matchedRows.length} rows`
+        : result.value === null ? "no numeric values" : formatNumber(result.value);
+      results.push({
+        tableId: stored.id,
+        documentId: stored.documentId,
+        documentName: stored.documentName,
+        tableName: stored.name,
+        pageNumber: stored.pageNumber,
+        calculation: describeQuery(result),
+        result: result.partial ? `${value} (partial: first ${rows.length} of ${stored.rowCount} rows)` : value,
+        range: result.range ? `${stored.name}!${result.range}` : stored.name,
+        content: formatTableResult(table, stored.documentName, result),
+      });
+    } catch (e) {
+      console.error(`Table query on ${stored.name} failed:`, e instanceof Error ? e.message : e);
+    }
+  });
+  return results;
+}
@@ -0,0 +1,320 @@
+// Live-data tools for hybrid mode. Before answering, the router model sees the
+// tool definitions and decides which tools (if any) the question needs and with
+// what arguments; each tool then calls one of the live-data edge functions and
+// its formatted output becomes a citable [S#] source in the prompt.
+import type { IntentLabel } from "../_shared/intent.ts";
+import { LANGUAGES } from "../_shared/languages.ts";
+
+export type ToolName = "get_stock_quotes" | "get_gold_prices" | "get_latest_news" | "get_political_news";
+
+export interface ToolCall {
+  name: ToolName;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolResult {
+  tool: ToolName;
+  // Shown as the source name in citations and the answer's data-source line
+  label: string;
+  content: string;
+  fetchedAt: string;
+}
+
+interface StockQuote {
+  symbol: string;
+  name?: string;
+  price: string;
+  changePercent: string;
+  isPositive?: boolean;
+  currency?: string;
+}
+
+interface Article {
+  title: string;
+  description?: string;
+  source: string;
+  region?: string;
+}
+
+// At most one call per tool is honoured per question
+const MAX_TOOL_CALLS = 4;
+const DEFAULT_ARTICLES = 5;
+const MAX_ARTICLES = 10;
+
+const INTENT_TOOLS: Record<IntentLabel, ToolName> = {
+  stock: "get_stock_quotes",
+  gold: "get_gold_prices",
+  news: "get_latest_news",
+  politics: "get_political_news",
+};
+
+export const TOOL_LABELS: Record<ToolName, string> = {
+  get_stock_quotes: "Live Stock Market API",
+  get_gold_prices: "Live Gold Price API",
+  get_latest_news: "Live News API",
+  get_political_news: "Live Politics API",
+};
+
+const TOOL_DEFINITIONS = [
+  {
+    type: "function",
+    function: {
+      name: "get_stock_quotes",
+      description: "Current stock and index prices. Pass Yahoo Finance tickers for specific companies or indices (e.g. AAPL, RELIANCE.NS, ^NSEI, ^BSESN); with no symbols it returns the major indices and top movers.",
+      parameters: {
+        type: "object",
+        properties: {
+          symbols: {
+            type: "array",
+            items: { type: "string" },
+            description: "Yahoo Finance ticker symbols; Indian NSE stocks end in .NS",
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_gold_prices",
+      description: "Current international gold price per ounce and Indian 24K/22K/18K prices per 10 grams.",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_latest_news",
+      description: "Latest general news headlines, optionally narrowed to a topic.",
+      parameters: {
+        type: "object",
+        properties: {
+          topic: { type: "string", description: "Keywords to filter headlines by, in English" },
+          limit: { type: "integer", description: `Number of headlines, at most ${MAX_ARTICLES}` },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_political_news",
+      description: "Latest political news and election updates.",
+      parameters: {
+        type: "object",
+        properties: {
+          limit: { type: "integer", description: `Number of headlines, at most ${MAX_ARTICLES}` },
+        },
+      },
+    },
+  },
+];
+
+const ROUTER_PROMPT = `You decide which live-data tools are needed to answer the user's question.
+RULES:
+1. Call a tool only when the question needs current market prices, gold rates, news or political updates
+2. Questions about the user's own documents, definitions or anything else need no tools - call none
+3. Pass specific ticker symbols when the user names companies or indices
+4. The question may be in ${LANGUAGES.map((language) => language.label).join(", ")}; tool arguments must be in English`;
+
+function isToolName(name: string): name is ToolName {
+  return name in TOOL_LABELS;
+}
+
+function articleLimit(value: unknown): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_ARTICLES) : DEFAULT_ARTICLES;
+}
+
+// Asks the model which tools to call. Returns null when the router itself
+// fails, so the caller can fall back to the intent classifier.
+export async function routeTools(query: string, apiKey: string): Promise<ToolCall[] | null> {
+  try {
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          { role: "system", content: ROUTER_PROMPT },
+          { role: "user", content: query },
+        ],
+        tools: TOOL_DEFINITIONS,
+        tool_choice: "auto",
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Tool router API error:", response.status, await response.text());
+      return null;
+    }
+
+    const result = await response.json();
+    const toolCalls: { function?: { name?: string; arguments?: string } }[] =
+      result.choices?.[0]?.message?.tool_calls || [];
+
+    const calls = new Map<ToolName, ToolCall>();
+    toolCalls.forEach((call) => {
+      const name = call.function?.name ?? "";
+      if (!isToolName(name) || calls.has(name)) return;
+
+      let args: Record<string, unknown> = {};
+      try {
+        args = JSON.parse(call.function?.arguments || "{}");
+      } catch {
+        console.error("Could not parse tool arguments:", call.function?.arguments);
+      }
+      calls.set(name, { name, arguments: args });
+    });
+    return [...calls.values()].slice(0, MAX_TOOL_CALLS);
+  } catch (e) {
+    console.error("Error routing tools:", e);
+    return null;
+  }
+}
+
+// Default-argument calls for intents found by the keyword classifier
+export function intentToolCalls(intents: IntentLabel[]): ToolCall[] {
+  return intents.map((intent) => ({ name: INTENT_TOOLS[intent], arguments: {} }));
+}
+
+async function fetchStockData(baseUrl: string, headers: HeadersInit, symbols: string[]): Promise<string> {
+  const query = symbols.length > 0 ? `?symbols=${encodeURIComponent(symbols.join(","))}` : "";
+  const response = await fetch(`${baseUrl}/stock-market${query}`, { headers });
+  const data = await response.json();
+  if (!data.success || !data.data) return "";
+
+  let summary = "";
+  const { quotes, notFound, indices, topGainers, topLosers } = data.data as {
+    quotes?: StockQuote[];
+    notFound?: string[];
+    indices?: StockQuote[];
+    topGainers?: StockQuote[];
+    topLosers?: StockQuote[];
+  };
+
+  if (quotes?.length) {
+    summary += "Quotes:\n";
+    quotes.forEach((quote) => {
+      const arrow = quote.isPositive ? '↑' : '↓';
+      summary += `• ${quote.symbol}${quote.name ? ` (${quote.name})` : ""}: ${quote.price}${quote.currency ? ` ${quote.currency}` : ""} (${arrow} ${quote.changePercent}%)\n`;
+    });
+  }
+  if (notFound?.length) {
+    summary += `No data for: ${notFound.join(", ")}\n`;
+  }
+
+  if (indices?.length) {
+    summary += "Major Indices:\n";
+    indices.forEach((idx) => {
+      const arrow = idx.isPositive ? '↑' : '↓';
+      summary += `• ${idx.name}: ${idx.price} (${arrow} ${idx.changePercent}%)\n`;
+    });
+  }
+
+  if (topGainers?.length) {
+    summary += "Top Gainers:\n";
+    topGainers.slice(0, 3).forEach((stock) => {
+      summary += `• ${stock.symbol}: ${stock.price} (↑ ${stock.changePercent}%)\n`;
+    });
+  }
+
+  if (topLosers?.length) {
+    summary += "Top Losers:\n";
+    topLosers.slice(0, 3).forEach((stock) => {
+      summary += `• ${stock.symbol}: ${stock.price} (↓ ${stock.changePercent}%)\n`;
+    });
+  }
+
+  return summary;
+}
+
+async function fetchGoldData(baseUrl: string, headers: HeadersInit): Promise<string> {
+  const response = await fetch(`${baseUrl}/gold-prices`, { headers });
+  const data = await response.json();
+  if (!data.success || !data.data) return "";
+
+  const { prices, pricePerOunceUSD, exchangeRate } = data.data;
+  let summary = `International Price: $${pricePerOunceUSD}/oz\n`;
+  summary += `Exchange Rate: ₹${exchangeRate}/USD\n`;
+  summary += "Indian Gold Prices (per 10 grams):\n";
+  summary += `• 24K (Pure): ₹${prices['24K'].per10Grams}\n`;
+  summary += `• 22K: ₹${prices['22K'].per10Grams}\n`;
+  summary += `• 18K: ₹${prices['18K'].per10Grams}\n`;
+  return summary;
+}
+
+function formatArticles(articles: Article[]): string {
+  let summary = "";
+  articles.forEach((article, index) => {
+    summary += `${index + 1}. ${article.title}\n`;
+    if (article.description) {
+      summary += `   ${article.description.slice(0, 200)}\n`;
+    }
+    summary += `   Source: ${article.source}${article.region ? ` | Region: ${article.region}` : ""}\n`;
+  });
+  return summary;
+}
+
+async function fetchNewsData(baseUrl: string, headers: HeadersInit, topic: string, limit: number): Promise<string> {
+  const response = await fetch(`${baseUrl}/latest-news`, { headers });
+  const data = await response.json();
+  if (!data.success || !data.data?.articles) return "";
+
+  let articles: Article[] = data.data.articles;
+  // The feed has no search, so narrow it here and fall back to the top headlines
+  const terms = topic.toLowerCase().split(/\s+/).filter((term) => term.length > 2);
+  if (terms.length > 0) {
+    const matching = articles.filter((article) => {
+      const text = `${article.title} ${article.description ?? ""}`.toLowerCase();
+      return terms.some((term) => text.includes(term));
+    });
+    if (matching.length > 0) articles = matching;
+  }
+  return formatArticles(articles.slice(0, limit));
+}
+
+async function fetchPoliticsData(baseUrl: string, headers: HeadersInit, limit: number): Promise<string> {
+  const response = await fetch(`${baseUrl}/politics`, { headers });
+  const data = await response.json();
+  if (!data.success || !data.data?.articles) return "";
+  return formatArticles((data.data.articles as Article[]).slice(0, limit));
+}
+
+async function runTool(call: ToolCall, baseUrl: string, headers: HeadersInit): Promise<string> {
+  switch (call.name) {
+    case "get_stock_quotes": {
+      const symbols = Array.isArray(call.arguments.symbols) ? call.arguments.symbols.map(String) : [];
+      return fetchStockData(baseUrl, headers, symbols);
+    }
+    case "get_gold_prices":
+      return fetchGoldData(baseUrl, headers);
+    case "get_latest_news":
+      return fetchNewsData(baseUrl, headers, String(call.arguments.topic ?? ""), articleLimit(call.arguments.limit));
+    case "get_political_news":
+      return fetchPoliticsData(baseUrl, headers, articleLimit(call.arguments.limit));
+  }
+}
+
+// Runs the calls in parallel; tools that fail or return nothing are left out
+export async function runTools(calls: ToolCall[], supabaseUrl: string, supabaseKey: string): Promise<ToolResult[]> {
+  const baseUrl = `${supabaseUrl}/functions/v1`;
+  const headers = { Authorization: `Bearer ${supabaseKey}` };
+
+  const results = await Promise.all(calls.map(async (call) => {
+    try {
+      const content = await runTool(call, baseUrl, headers);
+      if (!content) return null;
+      return { tool: call.name, label: TOOL_LABELS[call.name], content, fetchedAt: new Date().toISOString() };
+    } catch (e) {
+      console.error(`Error running ${call.name}:`, e);
+      return null;
+    }
+  }));
+
+  return results.filter((result): result is ToolResult => result !== null);
+}
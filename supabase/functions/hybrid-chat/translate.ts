@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { DEFAULT_LANGUAGE, getLanguage, isLanguageCode, type LanguageCode } from "../_shared/languages.ts";
+
+// Cross-lingual retrieval. Neither BM25 nor the embedding model matches a Hindi
+// question against English passages reliably, so the question is also
+// translated into each language the searched documents are written in and
+// every translation is searched alongside the original.
+
+export interface QueryTranslation {
+  language: LanguageCode;
+  text: string;
+}
+
+// Bounds the extra embedding and search calls per question
+const MAX_TRANSLATIONS = 3;
+
+const TRANSLATE_PROMPT = `You translate search queries for a document search engine.
+RULES:
+1. Translate the query into every requested language, in that language's usual script (Hinglish uses Roman script)
+2. Keep names, numbers, dates, ticker symbols and quoted phrases exactly as written
+3. Translate the meaning as a search query would be phrased, not word by word
+4. Reply with JSON only, keyed by the requested language codes, e.g. {"english":"..."}`;
+
+// Languages of the documents a chat searches. Documents indexed before
+// languages were recorded are assumed to be in the default language.
+export async function fetchDocumentLanguages(
+  supabase: SupabaseClient,
+  documentIds: string[] | null,
+): Promise<LanguageCode[]> {
+  let query = supabase.from("documents").select("language");
+  if (documentIds) {
+    query = query.in("id", documentIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load document languages: ${error.message}`);
+  }
+
+  const languages = new Set<LanguageCode>();
+  (data || []).forEach((row: { language: string | null }) => {
+    languages.add(isLanguageCode(row.language) ? row.language : DEFAULT_LANGUAGE);
+  });
+  return [...languages];
+}
+
+// Translates the query into the target languages other than its own. Any
+// failure returns no translations, so retrieval falls back to the original.
+export async function translateQuery(
+  query: string,
+  queryLanguage: LanguageCode,
+  targets: LanguageCode[],
+  apiKey: string,
+): Promise<QueryTranslation[]> {
+  const languages = targets.filter((language) => language !== queryLanguage).slice(0, MAX_TRANSLATIONS);
+  if (languages.length === 0 || !query.trim()) return [];
+
+  const requested = languages
+    .map((language) => `${language} (${getLanguage(language).label}, ${getLanguage(language).script} script)`)
+    .join(", ");
+
+  try {
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-2.5-flash",
+        messages: [
+          { role: "system", content: TRANSLATE_PROMPT },
+          { role: "user", content: `LANGUAGES: ${requested}\n\nQUERY:\n${query}` },
+        ],
+        temperature: 0,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Query translation API error:", response.status, await response.text());
+      return [];
+    }
+
+    const result = await response.json();
+    const raw = (result.choices?.[0]?.message?.content || "")
+      .trim()
+      .replace(/^```(?:json)?/, "")
+      .replace(/```$/, "")
+      .trim();
+    const parsed: Record<string, unknown> = JSON.parse(raw);
+
+    return languages
+      .map((language) => ({ language, text: String(parsed[language] ?? "").trim() }))
+      .filter((translation) => translation.text && translation.text !== query);
+  } catch (e) {
+    console.error("Error translating query:", e);
+    return [];
+  }
+}
@@ -0,0 +1,117 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { tokenize } from "../_shared/lexical.ts";
+import type { Confidence, EvidencePayload, EvidenceSource } from "./evidence.ts";
+
+// Checks that every quoted source text actually appears in the passage (or
+// document) it cites. Quotes are fuzzy-matched so whitespace, punctuation and
+// minor wording drift from the model do not count as fabrication.
+
+export type VerificationStatus = "verified" | "unverified" | "mismatched";
+
+// Share of quote tokens that must be found, in order-insensitive windows
+const MATCH_THRESHOLD = 0.85;
+
+// Best fraction of the quote's tokens found in any same-length window of the source
+export function matchScore(quote: string, source: string): number {
+  const quoteTokens = tokenize(quote);
+  const sourceTokens = tokenize(source);
+  if (quoteTokens.length === 0 || sourceTokens.length === 0) return 0;
+
+  if (` ${sourceTokens.join(" ")} `.includes(` ${quoteTokens.join(" ")} `)) {
+    return 1;
+  }
+
+  const needed = new Map<string, number>();
+  quoteTokens.forEach((token) => needed.set(token, (needed.get(token) ?? 0) + 1));
+
+  const windowSize = Math.min(quoteTokens.length, sourceTokens.length);
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = 0;
+
+  const add = (token: string, delta: 1 | -1) => {
+    const want = needed.get(token);
+    if (want === undefined) return;
+    const before = inWindow.get(token) ?? 0;
+    const after = before + delta;
+    inWindow.set(token, after);
+    matched += Math.min(after, want) - Math.min(before, want);
+  };
+
+  sourceTokens.forEach((token, i) => {
+    add(token, 1);
+    if (i >= windowSize) add(sourceTokens[i - windowSize], -1);
+    if (i >= windowSize - 1) best = Math.max(best, matched);
+  });
+
+  return best / quoteTokens.length;
+}
+
+const DOWNGRADE: Record<Confidence, Confidence> = { High: "Medium", Medium: "Low", Low: "Low" };
+
+// Marks each evidence item verified/unverified/mismatched and lowers the
+// model's confidence when its quotes do not hold up. Full document text is read
+// through the caller's RLS-scoped client so quotes spanning chunks still match.
+export async function verifyEvidence(
+  supabase: SupabaseClient,
+  payload: EvidencePayload,
+  sources: EvidenceSource[],
+): Promise<EvidencePayload> {
+  const documentIds = [...new Set(payload.evidence.map((e) => e.documentId).filter((id): id is string => !!id))];
+  const documentText = new Map<string, string>();
+
+  if (documentIds.length > 0) {
+    const { data, error } = await supabase
+      .from("documents")
+      .select("id, content")
+      .in("id", documentIds);
+
+    if (error) {
+      console.error("Failed to load documents for verification:", error);
+    }
+    (data || []).forEach((doc: { id: string; content: string | null }) => {
+      if (doc.content) documentText.set(doc.id, doc.content);
+    });
+  }
+
+  const bySourceId = new Map(sources.map((source) => [source.sourceId, source]));
+
+  const evidence = payload.evidence.map((item) => {
+    if (!item.text) {
+      return { ...item, verification: "unverified" as VerificationStatus, matchScore: 0 };
+    }
+
+    const cited = bySourceId.get(item.sourceId);
+    const score = Math.max(
+      matchScore(item.text, cited?.content ?? ""),
+      item.documentId ? matchScore(item.text, documentText.get(item.documentId) ?? "") : 0,
+    );
+    if (score >= MATCH_THRESHOLD) {
+      return { ...item, verification: "verified" as VerificationStatus, matchScore: score };
+    }
+
+    // Real quote, wrong citation
+    const elsewhere = sources.find(
+      (source) => source.sourceId !== item.sourceId && matchScore(item.text, source.content) >= MATCH_THRESHOLD
+    );
+    return {
+      ...item,
+      verification: (elsewhere ? "mismatched" : "unverified") as VerificationStatus,
+      matchScore: score,
+    };
+  });
+
+  const verifiedCount = evidence.filter((e) => e.verification === "verified").length;
+  let confidence = payload.confidence;
+  if (confidence && verifiedCount === 0) {
+    confidence = "Low";
+  } else if (confidence && verifiedCount < evidence.length) {
+    confidence = DOWNGRADE[confidence];
+  }
+
+  if (confidence !== payload.confidence) {
+    console.log(`Confidence lowered from ${payload.confidence} to ${confidence} (${verifiedCount}/${evidence.length} quotes verified)`);
+  }
+
+  return { evidence, confidence, reportedConfidence: payload.confidence };
+}
@@ -0,0 +1,146 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { resolveFileType } from "../_shared/file-types.ts";
+import { registerDocument, startIngestionWorker } from "../_shared/ingest.ts";
+import { DOCUMENTS_BUCKET, findStoredObject } from "../_shared/storage.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Entry point for uploads from every screen. The browser puts the file in the
+// caller's folder of the documents bucket, then calls this with its path; the
+// upload is checked against the file-type registry here, whatever the client
+// already checked, before the document is recorded and queued for ingestion.
+// Rejected uploads are removed from storage unless a document already uses them.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { filePath, name, mimeType, durationSeconds } = await req.json();
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: req.headers.get("Authorization") ?? "" } },
+    });
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only objects directly inside the caller's own folder
+    const folder = `${user.id}/`;
+    if (
+      typeof filePath !== "string" ||
+      typeof name !== "string" ||
+      !filePath.startsWith(folder) ||
+      filePath.slice(folder.length).includes("/")
+    ) {
+      return new Response(
+        JSON.stringify({ success: false, error: "filePath and name are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // A path some document already points to is neither registered twice nor,
+    // below, removed as a rejected upload
+    const { data: existing, error: existingError } = await supabase
+      .from("documents")
+      .select("id")
+      .eq("file_path", filePath)
+      .limit(1);
+
+    if (existingError) {
+      throw new Error(`Failed to check upload: ${existingError.message}`);
+    }
+    if (existing && existing.length > 0) {
+      return new Response(
+        JSON.stringify({ success: false, error: "This file has already been added" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Only reached for paths no document references
+    const reject = async (status: number, error: string) => {
+      await supabase.storage.from(DOCUMENTS_BUCKET).remove([filePath]);
+      return new Response(
+        JSON.stringify({ success: false, error }),
+        { status, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    };
+
+    const stored = await findStoredObject(supabase, filePath);
+    if (!stored) {
+      return new Response(
+        JSON.stringify({ success: false, error: "Uploaded file not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const fileType = resolveFileType(name, typeof mimeType === "string" ? mimeType : "");
+    if (!fileType) {
+      return await reject(415, `Unsupported file type: ${name}`);
+    }
+
+    const fileSize = stored.size;
+    if (fileSize > fileType.maxBytes) {
+      return await reject(413, `The ${fileType.label} file is larger than ${fileType.maxBytes / (1024 * 1024)}MB`);
+    }
+
+    // Plain text is stored directly; everything else is extracted by the worker
+    let content: string | null = null;
+    if (fileType.plainText) {
+      const { data: blob, error: downloadError } = await supabase.storage.from(DOCUMENTS_BUCKET).download(filePath);
+      if (downloadError || !blob) {
+        throw new Error(`Failed to read upload: ${downloadError?.message}`);
+      }
+      content = await blob.text();
+    }
+
+    const doc = await registerDocument(supabase, {
+      userId: user.id,
+      name,
+      filePath,
+      fileType,
+      fileSize,
+      content,
+      durationSeconds: fileType.ingestion === "transcribe" && typeof durationSeconds === "number" ? durationSeconds : null,
+    });
+    startIngestionWorker(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, doc.jobId);
+
+    console.log(`Registered ${filePath} as ${doc.id} (${fileType.label}, ${fileSize} bytes)`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        document: { id: doc.id, name: doc.name, fileType: doc.fileType },
+        jobId: doc.jobId,
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Ingest document error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
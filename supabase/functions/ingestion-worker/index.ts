@@ -0,0 +1,226 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import { extractDocument } from "../_shared/extraction.ts";
+import { transcribeDocument } from "../_shared/transcription.ts";
+import { indexDocument } from "../_shared/indexing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Keep well inside the edge function wall-clock limit
+const MAX_JOBS_PER_RUN = 5;
+const TIME_BUDGET_MS = 100_000;
+
+// A failed attempt is retried after a delay that doubles each time
+const RETRY_DELAY_MS = 15_000;
+const MAX_RETRY_DELAY_MS = 60_000;
+
+interface IngestionJob {
+  id: string;
+  document_id: string;
+  kind: "extract" | "transcribe" | "index";
+  attempts: number;
+  max_attempts: number;
+}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+// Resolves to false when the job made progress but has more work left
+async function runJob(
+  supabase: SupabaseClient,
+  job: IngestionJob,
+  apiKey: string,
+  timeBudgetMs: number,
+): Promise<boolean> {
+  switch (job.kind) {
+    case "extract":
+      await extractDocument(supabase, job.document_id, apiKey, Deno.env.get("OCR_ENGINE"));
+      return true;
+    case "transcribe": {
+      const { done } = await transcribeDocument(supabase, job.document_id, apiKey, { timeBudgetMs });
+      return done;
+    }
+    case "index":
+      await indexDocument(supabase, job.document_id, apiKey);
+      return true;
+    default:
+      throw new Error(`Unknown job kind: ${job.kind}`);
+  }
+}
+
+async function claimJob(supabase: SupabaseClient, jobId?: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabase.rpc("claim_ingestion_job", { target_job_id: jobId ?? null });
+  if (error) {
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+  return ((data || []) as IngestionJob[])[0] ?? null;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// When the soonest queued job may be claimed, or null when nothing is queued
+async function nextDueAt(supabase: SupabaseClient): Promise<number | null> {
+  const { data, error } = await supabase
+    .from("ingestion_jobs")
+    .select("next_attempt_at")
+    .eq("status", "queued")
+    .order("next_attempt_at")
+    .limit(1);
+  if (error) {
+    throw new Error(`Failed to check the queue: ${error.message}`);
+  }
+  return data && data.length > 0 ? new Date(data[0].next_attempt_at).getTime() : null;
+}
+
+// Runs the rest of the queue in a fresh invocation with its own time limit,
+// after waiting for the next job to become due
+function continueQueue(supabaseUrl: string, serviceRoleKey: string, delayMs: number): void {
+  EdgeRuntime.waitUntil(
+    new Promise((resolve) => setTimeout(resolve, delayMs))
+      .then(() =>
+        fetch(`${supabaseUrl}/functions/v1/ingestion-worker`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${serviceRoleKey}`,
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({}),
+        })
+      )
+      .catch((e) => console.error("Failed to continue ingestion:", e))
+  );
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { jobId } = await req.json().catch(() => ({}));
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!LOVABLE_API_KEY) {
+      throw new Error("LOVABLE_API_KEY is not configured");
+    }
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    // Other functions and the worker itself call with the service role key and
+    // may drain the queue. Users may only run one of their own jobs.
+    const authorization = req.headers.get("Authorization") ?? "";
+    const drainsQueue = authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`;
+    if (!drainsQueue) {
+      if (typeof jobId !== "string") {
+        return new Response(
+          JSON.stringify({ success: false, error: "jobId is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authorization } },
+      });
+      const { data: { user } } = await userClient.auth.getUser();
+      if (!user) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      // RLS on the caller's own client confirms the job is theirs
+      const { data: ownJob } = await userClient
+        .from("ingestion_jobs")
+        .select("id")
+        .eq("id", jobId)
+        .maybeSingle();
+      if (!ownJob) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Job not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const startedAt = Date.now();
+    const processed: { id: string; status: string; error?: string }[] = [];
+
+    // Process the requested job first, then drain whatever else is due
+    let job = await claimJob(supabase, jobId);
+    while (job) {
+      console.log(`Running ${job.kind} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+      try {
+        const done = await runJob(supabase, job, LOVABLE_API_KEY, TIME_BUDGET_MS - (Date.now() - startedAt));
+        if (!done) {
+          // Partial progress is not a failed attempt; hand back the attempt and requeue
+          await supabase
+            .from("ingestion_jobs")
+            .update({ status: "queued", attempts: job.attempts - 1, error: null, next_attempt_at: new Date().toISOString() })
+            .eq("id", job.id);
+          processed.push({ id: job.id, status: "queued" });
+          break;
+        }
+        await supabase
+          .from("ingestion_jobs")
+          .update({ status: "succeeded", finished_at: new Date().toISOString() })
+          .eq("id", job.id);
+        processed.push({ id: job.id, status: "succeeded" });
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "Unknown error";
+        console.error(`Job ${job.id} failed:`, e);
+
+        // Re-queue with a delay until attempts are exhausted, then surface the failure
+        const status = job.attempts < job.max_attempts ? "queued" : "failed";
+        await supabase
+          .from("ingestion_jobs")
+          .update({
+            status,
+            error: message,
+            finished_at: new Date().toISOString(),
+            next_attempt_at: new Date(Date.now() + retryDelay(job.attempts)).toISOString(),
+          })
+          .eq("id", job.id);
+        processed.push({ id: job.id, status, error: message });
+      }
+
+      if (!drainsQueue || processed.length >= MAX_JOBS_PER_RUN || Date.now() - startedAt > TIME_BUDGET_MS) {
+        break;
+      }
+      job = await claimJob(supabase);
+    }
+
+    // Anything still queued (long transcriptions, retries, jobs past this run's
+    // limits) is picked up by a fresh invocation. The wait never runs past this
+    // invocation's budget; one started early finds nothing due and waits in turn.
+    const dueAt = await nextDueAt(supabase);
+    if (dueAt !== null) {
+      const untilDue = Math.max(0, dueAt - Date.now());
+      const budgetLeft = Math.max(0, TIME_BUDGET_MS - (Date.now() - startedAt));
+      continueQueue(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, Math.min(untilDue, budgetLeft));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Ingestion worker error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -5,12 +5,84 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const MAX_SYMBOLS = 10;
+const SYMBOL_PATTERN = /^[\^A-Z0-9.=-]{1,20}$/;
+
+async function readSymbols(req: Request): Promise<string[]> {
+  let raw: unknown = new URL(req.url).searchParams.get('symbols');
+  if (!raw && req.method === 'POST') {
+    try {
+      raw = (await req.json())?.symbols;
+    } catch {
+      // No body: the default market overview
+    }
+  }
+
+  const list = Array.isArray(raw) ? raw : typeof raw === 'string' ? raw.split(',') : [];
+  const symbols = list
+    .map((symbol) => String(symbol).trim().toUpperCase())
+    .filter((symbol) => SYMBOL_PATTERN.test(symbol));
+  return [...new Set(symbols)].slice(0, MAX_SYMBOLS);
+}
+
+async function fetchQuote(symbol: string) {
+  try {
+    const response = await fetch(
+      `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&range=1d`
+    );
+    const data = await response.json();
+    
+    if (data.chart?.result?.[0]) {
+      const result = data.chart.result[0];
+      const meta = result.meta;
+      const previousClose = meta.previousClose || meta.chartPreviousClose;
+      const currentPrice = meta.regularMarketPrice;
+      const change = currentPrice - previousClose;
+      const changePercent = (change / previousClose) * 100;
+
+      return {
+        symbol: symbol.replace('.NS', ''),
+        name: meta.shortName || symbol,
+        price: currentPrice?.toFixed(2),
+        change: change?.toFixed(2),
+        changePercent: changePercent?.toFixed(2),
+        isPositive: change >= 0,
+        currency: meta.currency,
+      };
+    }
+    return null;
+  } catch (e) {
+    console.error(`Error fetching ${symbol}:`, e);
+    return null;
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    // Specific tickers can be requested as ?symbols=AAPL,RELIANCE.NS or a JSON body
+    const requestedSymbols = await readSymbols(req);
+    if (requestedSymbols.length > 0) {
+      const quotes = await Promise.all(requestedSymbols.map((symbol) => fetchQuote(symbol)));
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            quotes: quotes.filter(q => q !== null),
+            notFound: requestedSymbols.filter((_, i) => quotes[i] === null),
+            lastUpdated: new Date().toISOString(),
+          },
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
     // Fetch major indices data from Yahoo Finance API (unofficial but reliable)
     const indices = [
       { symbol: '^GSPC', name: 'S&P 500' },
@@ -29,71 +101,22 @@ serve(async (req) => {
     // Fetch data for indices
     const indicesData = await Promise.all(
       indices.map(async (index) => {
-        try {
-          const response = await fetch(
-            `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(index.symbol)}?interval=1d&range=1d`
-          );
-          const data = await response.json();
-          
-          if (data.chart?.result?.[0]) {
-            const result = data.chart.result[0];
-            const meta = result.meta;
-            const previousClose = meta.previousClose || meta.chartPreviousClose;
-            const currentPrice = meta.regularMarketPrice;
-            const change = currentPrice - previousClose;
-            const changePercent = (change / previousClose) * 100;
-
-            return {
-              symbol: index.symbol,
-              name: index.name,
-              price: currentPrice?.toFixed(2),
-              change: change?.toFixed(2),
-              changePercent: changePercent?.toFixed(2),
-              isPositive: change >= 0,
-            };
-          }
-          return null;
-        } catch (e) {
-          console.error(`Error fetching ${index.symbol}:`, e);
-          return null;
-        }
+        const quote = await fetchQuote(index.symbol);
+        if (!quote) return null;
+
+        return {
+          symbol: index.symbol,
+          name: index.name,
+          price: quote.price,
+          change: quote.change,
+          changePercent: quote.changePercent,
+          isPositive: quote.isPositive,
+        };
       })
     );
 
     // Fetch data for stocks
-    const stocksData = await Promise.all(
-      stockSymbols.map(async (symbol) => {
-        try {
-          const response = await fetch(
-            `https://query1.finance.yahoo.com/v8/finance/chart/${encodeURIComponent(symbol)}?interval=1d&range=1d`
-          );
-          const data = await response.json();
-          
-          if (data.chart?.result?.[0]) {
-            const result = data.chart.result[0];
-            const meta = result.meta;
-            const previousClose = meta.previousClose || meta.chartPreviousClose;
-            const currentPrice = meta.regularMarketPrice;
-            const change = currentPrice - previousClose;
-            const changePercent = (change / previousClose) * 100;
-
-            return {
-              symbol: symbol.replace('.NS', ''),
-              name: meta.shortName || symbol,
-              price: currentPrice?.toFixed(2),
-              change: change?.toFixed(2),
-              changePercent: changePercent?.toFixed(2),
-              isPositive: change >= 0,
-              currency: meta.currency,
-            };
-          }
-          return null;
-        } catch (e) {
-          console.error(`Error fetching ${symbol}:`, e);
-          return null;
-        }
-      })
-    );
+    const stocksData = await Promise.all(stockSymbols.map((symbol) => fetchQuote(symbol)));
 
     const validStocks = stocksData.filter(s => s !== null);
     const gainers = [...validStocks].sort((a, b) => parseFloat(b!.changePercent) - parseFloat(a!.changePercent)).slice(0, 5);
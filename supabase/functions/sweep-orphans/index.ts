@@ -0,0 +1,124 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.3";
+import {
+  listStoredObjects,
+  listUserFolders,
+  removeStoredObjects,
+  type StoredObject,
+} from "../_shared/storage.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// A fresh upload has no document until ingest-document records it; files
+// younger than this are never treated as orphans
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+interface SweepResult {
+  scanned: number;
+  orphans: StoredObject[];
+}
+
+// Files in a user's folder that no document's file_path points to
+async function findOrphans(supabase: SupabaseClient, userId: string): Promise<SweepResult> {
+  const objects = await listStoredObjects(supabase, userId);
+  if (objects.length === 0) return { scanned: 0, orphans: [] };
+
+  const { data, error } = await supabase
+    .from("documents")
+    .select("file_path")
+    .eq("user_id", userId);
+
+  if (error) {
+    throw new Error(`Failed to load documents: ${error.message}`);
+  }
+
+  const referenced = new Set((data || []).map((doc: { file_path: string }) => doc.file_path));
+  const cutoff = Date.now() - GRACE_PERIOD_MS;
+  const orphans = objects.filter((object) =>
+    !referenced.has(object.path) &&
+    object.createdAt !== null &&
+    new Date(object.createdAt).getTime() < cutoff
+  );
+  return { scanned: objects.length, orphans };
+}
+
+// Removes files in the documents bucket that belong to no document, such as
+// those left by deletes that only matched the file name. Called by a user it
+// sweeps their own folder; called with the service role key (e.g. from a
+// scheduled job) it sweeps every user's. dryRun reports without removing.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { dryRun = false } = await req.json().catch(() => ({}));
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+    const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Supabase credentials not configured");
+    }
+
+    const authorization = req.headers.get("Authorization") ?? "";
+    let userIds: string[];
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    if (authorization === `Bearer ${SUPABASE_SERVICE_ROLE_KEY}`) {
+      userIds = await listUserFolders(supabase);
+    } else {
+      const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+        global: { headers: { Authorization: authorization } },
+      });
+      const { data: { user } } = await userClient.auth.getUser();
+      if (!user) {
+        return new Response(
+          JSON.stringify({ success: false, error: "Unauthorized" }),
+          { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+      userIds = [user.id];
+    }
+
+    let scanned = 0;
+    const orphans: StoredObject[] = [];
+    for (const userId of userIds) {
+      const result = await findOrphans(supabase, userId);
+      scanned += result.scanned;
+      orphans.push(...result.orphans);
+    }
+
+    if (!dryRun) {
+      await removeStoredObjects(supabase, orphans.map((object) => object.path));
+    }
+
+    const freedBytes = orphans.reduce((total, object) => total + object.size, 0);
+    console.log(`${dryRun ? "Found" : "Removed"} ${orphans.length} orphaned files (${freedBytes} bytes) among ${scanned} in ${userIds.length} folders`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        dryRun,
+        scanned,
+        removed: dryRun ? 0 : orphans.length,
+        freedBytes: dryRun ? 0 : freedBytes,
+        orphans: orphans.map((object) => ({ path: object.path, size: object.size, createdAt: object.createdAt })),
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Sweep orphans error:", error);
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error"
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+-- Enable pgvector for chunk embeddings
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- Create document_chunks table holding retrievable passages of each document
+CREATE TABLE public.document_chunks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding extensions.vector(768),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+-- Enable RLS on document_chunks
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Document chunks policies
+CREATE POLICY "Users can view their own document chunks" ON public.document_chunks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own document chunks" ON public.document_chunks FOR DELETE USING (auth.uid() = user_id);
+
+-- Indexes for lookups and approximate nearest neighbour search
+CREATE INDEX idx_document_chunks_document_id ON public.document_chunks(document_id);
+CREATE INDEX idx_document_chunks_user_id ON public.document_chunks(user_id);
+CREATE INDEX idx_document_chunks_embedding ON public.document_chunks USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- Top-k similarity search over the caller's chunks (runs with the caller's RLS)
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 8,
+  min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,40 @@
+-- Track page numbers for paged documents such as PDFs
+ALTER TABLE public.documents ADD COLUMN page_count INTEGER;
+ALTER TABLE public.document_chunks ADD COLUMN page_number INTEGER;
+
+-- Return the page of each matched chunk so evidence can cite it
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 8,
+  min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,73 @@
+-- Background ingestion jobs (extraction, transcription, indexing) per document
+CREATE TYPE public.ingestion_job_status AS ENUM ('queued', 'running', 'succeeded', 'failed');
+
+CREATE TABLE public.ingestion_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('extract', 'transcribe', 'index')),
+  status public.ingestion_job_status NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  started_at TIMESTAMP WITH TIME ZONE,
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Enable RLS on ingestion_jobs
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Ingestion jobs policies (status changes are made by the worker with the service role)
+CREATE POLICY "Users can view their own ingestion jobs" ON public.ingestion_jobs FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can enqueue jobs for their own documents" ON public.ingestion_jobs FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND status = 'queued'
+  AND EXISTS (SELECT 1 FROM public.documents d WHERE d.id = document_id AND d.user_id = auth.uid())
+);
+
+CREATE INDEX idx_ingestion_jobs_document_id ON public.ingestion_jobs(document_id);
+CREATE INDEX idx_ingestion_jobs_queue ON public.ingestion_jobs(status, created_at);
+
+CREATE TRIGGER update_ingestion_jobs_updated_at BEFORE UPDATE ON public.ingestion_jobs FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stream status changes to the Documents page
+ALTER TABLE public.ingestion_jobs REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ingestion_jobs;
+
+-- Atomically claim the next queued job (or a specific one); running jobs that
+-- have been stuck for 15 minutes are treated as abandoned and reclaimed
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(target_job_id UUID DEFAULT NULL)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.ingestion_jobs
+  SET status = 'running', attempts = attempts + 1, started_at = now(), finished_at = NULL, error = NULL
+  WHERE id = (
+    SELECT id FROM public.ingestion_jobs
+    WHERE (target_job_id IS NULL OR id = target_job_id)
+      AND attempts < max_attempts
+      AND (status = 'queued' OR (status = 'running' AND started_at < now() - interval '15 minutes'))
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ingestion_job(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Let users put their own failed jobs back in the queue
+CREATE OR REPLACE FUNCTION public.retry_ingestion_job(job_id UUID)
+RETURNS public.ingestion_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.ingestion_jobs
+  SET status = 'queued', attempts = 0, error = NULL, started_at = NULL, finished_at = NULL
+  WHERE id = job_id AND user_id = auth.uid() AND status = 'failed'
+  RETURNING *;
+$$;
@@ -0,0 +1,69 @@
+-- Long audio/video is transcribed in fixed windows; each window is kept so a
+-- transcription that runs out of time can resume where it stopped
+ALTER TABLE public.documents ADD COLUMN duration_seconds DOUBLE PRECISION;
+
+CREATE TABLE public.transcript_segments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  segment_index INTEGER NOT NULL,
+  start_seconds DOUBLE PRECISION NOT NULL,
+  end_seconds DOUBLE PRECISION NOT NULL,
+  content TEXT NOT NULL,
+  is_final BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, segment_index)
+);
+
+ALTER TABLE public.transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- Segments are written by the ingestion worker with the service role
+CREATE POLICY "Users can view their own transcript segments"
+ON public.transcript_segments FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_transcript_segments_document_id ON public.transcript_segments(document_id);
+
+-- Media position of each chunk, taken from the transcript's [MM:SS] marks
+ALTER TABLE public.document_chunks ADD COLUMN start_seconds DOUBLE PRECISION;
+ALTER TABLE public.document_chunks ADD COLUMN end_seconds DOUBLE PRECISION;
+
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 8,
+  min_similarity DOUBLE PRECISION DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_seconds DOUBLE PRECISION,
+  end_seconds DOUBLE PRECISION,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.start_seconds,
+    c.end_seconds,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,64 @@
+-- Documents a chat is allowed to draw from; a chat with no rows searches all
+-- of the user's documents
+CREATE TABLE public.chat_documents (
+  chat_id UUID NOT NULL REFERENCES public.chats(id) ON DELETE CASCADE,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (chat_id, document_id)
+);
+
+ALTER TABLE public.chat_documents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own chat documents" ON public.chat_documents FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can scope their own chats to their own documents" ON public.chat_documents FOR INSERT WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (SELECT 1 FROM public.chats c WHERE c.id = chat_id AND c.user_id = auth.uid())
+  AND EXISTS (SELECT 1 FROM public.documents d WHERE d.id = document_id AND d.user_id = auth.uid())
+);
+CREATE POLICY "Users can delete their own chat documents" ON public.chat_documents FOR DELETE USING (auth.uid() = user_id);
+
+CREATE INDEX idx_chat_documents_document_id ON public.chat_documents(document_id);
+
+-- Optionally restrict the similarity search to a set of documents
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, INTEGER, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 8,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_seconds DOUBLE PRECISION,
+  end_seconds DOUBLE PRECISION,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.start_seconds,
+    c.end_seconds,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+    AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
@@ -0,0 +1,112 @@
+-- Lexical search over chunks. 'english' stems English words; 'simple' keeps
+-- every token as-is, which is what names, ticker symbols, invoice numbers and
+-- Hindi/Urdu terms need.
+ALTER TABLE public.document_chunks
+  ADD COLUMN search_en tsvector GENERATED ALWAYS AS (to_tsvector('english', content)) STORED,
+  ADD COLUMN search_simple tsvector GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX idx_document_chunks_search_en ON public.document_chunks USING gin (search_en);
+CREATE INDEX idx_document_chunks_search_simple ON public.document_chunks USING gin (search_simple);
+
+-- BM25 (k1 = 1.2, b = 0.75) over the caller's chunks, scored separately for
+-- each configuration and keeping the better of the two. Document length is the
+-- number of distinct lexemes, which is what a tsvector records.
+CREATE OR REPLACE FUNCTION public.search_document_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 8,
+  filter_document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_seconds DOUBLE PRECISION,
+  end_seconds DOUBLE PRECISION,
+  content TEXT,
+  rank DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT c.*
+    FROM public.document_chunks c
+    WHERE filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids)
+  ),
+  terms AS (
+    SELECT 'english' AS cfg, t.lexeme FROM unnest(to_tsvector('english', query_text)) t
+    UNION
+    SELECT 'simple' AS cfg, t.lexeme FROM unnest(to_tsvector('simple', query_text)) t
+  ),
+  corpus AS (
+    SELECT
+      count(*)::float8 AS n,
+      greatest(avg(length(s.search_en)), 1)::float8 AS avgdl_en,
+      greatest(avg(length(s.search_simple)), 1)::float8 AS avgdl_simple
+    FROM scoped s
+  ),
+  -- Any chunk containing any query term; OR-ing the terms keeps partial matches
+  candidates AS (
+    SELECT s.*
+    FROM scoped s
+    WHERE s.search_en @@ replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery
+       OR s.search_simple @@ replace(plainto_tsquery('simple', query_text)::text, '&', '|')::tsquery
+  ),
+  postings AS (
+    SELECT
+      c.id,
+      u.cfg,
+      u.lexeme,
+      coalesce(array_length(u.positions, 1), 1)::float8 AS tf,
+      (CASE WHEN u.cfg = 'english' THEN length(c.search_en) ELSE length(c.search_simple) END)::float8 AS dl
+    FROM candidates c
+    CROSS JOIN LATERAL (
+      SELECT 'english' AS cfg, x.lexeme, x.positions FROM unnest(c.search_en) x
+      UNION ALL
+      SELECT 'simple' AS cfg, x.lexeme, x.positions FROM unnest(c.search_simple) x
+    ) u
+    JOIN terms t ON t.cfg = u.cfg AND t.lexeme = u.lexeme
+  ),
+  df AS (
+    SELECT p.cfg, p.lexeme, count(DISTINCT p.id)::float8 AS df
+    FROM postings p
+    GROUP BY p.cfg, p.lexeme
+  ),
+  scores AS (
+    SELECT
+      p.id,
+      p.cfg,
+      sum(
+        ln(1 + (corpus.n - df.df + 0.5) / (df.df + 0.5))
+        * (p.tf * 2.2)
+        / (p.tf + 1.2 * (0.25 + 0.75 * p.dl / CASE WHEN p.cfg = 'english' THEN corpus.avgdl_en ELSE corpus.avgdl_simple END))
+      ) AS score
+    FROM postings p
+    JOIN df ON df.cfg = p.cfg AND df.lexeme = p.lexeme
+    CROSS JOIN corpus
+    GROUP BY p.id, p.cfg
+  ),
+  best AS (
+    SELECT s.id, max(s.score) AS score
+    FROM scores s
+    GROUP BY s.id
+  )
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.start_seconds,
+    c.end_seconds,
+    c.content,
+    b.score AS rank
+  FROM best b
+  JOIN candidates c ON c.id = b.id
+  JOIN public.documents d ON d.id = c.document_id
+  ORDER BY b.score DESC
+  LIMIT match_count;
+$$;
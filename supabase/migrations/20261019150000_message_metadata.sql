@@ -0,0 +1,3 @@
+-- Per-answer details that are not evidence, such as the standalone query a
+-- follow-up question was rewritten into
+ALTER TABLE public.messages ADD COLUMN metadata JSONB;
@@ -0,0 +1,7 @@
+-- Rolling summary of a chat's older turns. hybrid-chat sends the summary in
+-- place of the first summary_message_count messages and regenerates it as the
+-- chat grows; users can read and edit it from the chat header.
+ALTER TABLE public.chats
+  ADD COLUMN summary TEXT,
+  ADD COLUMN summary_message_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN summary_updated_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,4 @@
+-- Strict chats answer from the user's documents only; hybrid chats may also
+-- call live-data tools (stocks, gold, news, politics) chosen per question.
+ALTER TABLE public.chats
+  ADD COLUMN mode TEXT NOT NULL DEFAULT 'strict' CHECK (mode IN ('strict', 'hybrid'));
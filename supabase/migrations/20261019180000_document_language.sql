@@ -0,0 +1,6 @@
+-- Dominant language of a document's text, detected when it is indexed. Chat
+-- translates questions into the languages of the documents being searched, so
+-- a Hindi question can match English passages and vice versa. NULL until the
+-- document is (re)indexed.
+ALTER TABLE public.documents
+  ADD COLUMN language TEXT;
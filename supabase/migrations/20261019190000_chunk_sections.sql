@@ -0,0 +1,154 @@
+-- Heading, slide or spreadsheet sheet and rows a chunk comes from, for
+-- documents without pages (Word, PowerPoint, Excel, CSV, Markdown, HTML).
+-- Returned by both searches so citations can point at it.
+ALTER TABLE public.document_chunks
+  ADD COLUMN section TEXT;
+
+-- The return types change, so the functions are dropped and recreated
+DROP FUNCTION IF EXISTS public.match_document_chunks(extensions.vector, INTEGER, DOUBLE PRECISION, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.match_document_chunks(
+  query_embedding extensions.vector(768),
+  match_count INTEGER DEFAULT 8,
+  min_similarity DOUBLE PRECISION DEFAULT 0,
+  filter_document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_seconds DOUBLE PRECISION,
+  end_seconds DOUBLE PRECISION,
+  section TEXT,
+  content TEXT,
+  similarity DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.start_seconds,
+    c.end_seconds,
+    c.section,
+    c.content,
+    1 - (c.embedding <=> query_embedding) AS similarity
+  FROM public.document_chunks c
+  JOIN public.documents d ON d.id = c.document_id
+  WHERE c.embedding IS NOT NULL
+    AND (filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids))
+    AND 1 - (c.embedding <=> query_embedding) >= min_similarity
+  ORDER BY c.embedding <=> query_embedding
+  LIMIT match_count;
+$$;
+
+DROP FUNCTION IF EXISTS public.search_document_chunks(TEXT, INTEGER, UUID[]);
+
+CREATE OR REPLACE FUNCTION public.search_document_chunks(
+  query_text TEXT,
+  match_count INTEGER DEFAULT 8,
+  filter_document_ids UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  page_number INTEGER,
+  start_seconds DOUBLE PRECISION,
+  end_seconds DOUBLE PRECISION,
+  section TEXT,
+  content TEXT,
+  rank DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH scoped AS (
+    SELECT c.*
+    FROM public.document_chunks c
+    WHERE filter_document_ids IS NULL OR c.document_id = ANY(filter_document_ids)
+  ),
+  terms AS (
+    SELECT 'english' AS cfg, t.lexeme FROM unnest(to_tsvector('english', query_text)) t
+    UNION
+    SELECT 'simple' AS cfg, t.lexeme FROM unnest(to_tsvector('simple', query_text)) t
+  ),
+  corpus AS (
+    SELECT
+      count(*)::float8 AS n,
+      greatest(avg(length(s.search_en)), 1)::float8 AS avgdl_en,
+      greatest(avg(length(s.search_simple)), 1)::float8 AS avgdl_simple
+    FROM scoped s
+  ),
+  -- Any chunk containing any query term; OR-ing the terms keeps partial matches
+  candidates AS (
+    SELECT s.*
+    FROM scoped s
+    WHERE s.search_en @@ replace(plainto_tsquery('english', query_text)::text, '&', '|')::tsquery
+       OR s.search_simple @@ replace(plainto_tsquery('simple', query_text)::text, '&', '|')::tsquery
+  ),
+  postings AS (
+    SELECT
+      c.id,
+      u.cfg,
+      u.lexeme,
+      coalesce(array_length(u.positions, 1), 1)::float8 AS tf,
+      (CASE WHEN u.cfg = 'english' THEN length(c.search_en) ELSE length(c.search_simple) END)::float8 AS dl
+    FROM candidates c
+    CROSS JOIN LATERAL (
+      SELECT 'english' AS cfg, x.lexeme, x.positions FROM unnest(c.search_en) x
+      UNION ALL
+      SELECT 'simple' AS cfg, x.lexeme, x.positions FROM unnest(c.search_simple) x
+    ) u
+    JOIN terms t ON t.cfg = u.cfg AND t.lexeme = u.lexeme
+  ),
+  df AS (
+    SELECT p.cfg, p.lexeme, count(DISTINCT p.id)::float8 AS df
+    FROM postings p
+    GROUP BY p.cfg, p.lexeme
+  ),
+  scores AS (
+    SELECT
+      p.id,
+      p.cfg,
+      sum(
+        ln(1 + (corpus.n - df.df + 0.5) / (df.df + 0.5))
+        * (p.tf * 2.2)
+        / (p.tf + 1.2 * (0.25 + 0.75 * p.dl / CASE WHEN p.cfg = 'english' THEN corpus.avgdl_en ELSE corpus.avgdl_simple END))
+      ) AS score
+    FROM postings p
+    JOIN df ON df.cfg = p.cfg AND df.lexeme = p.lexeme
+    CROSS JOIN corpus
+    GROUP BY p.id, p.cfg
+  ),
+  best AS (
+    SELECT s.id, max(s.score) AS score
+    FROM scores s
+    GROUP BY s.id
+  )
+  SELECT
+    c.id,
+    c.document_id,
+    d.name AS document_name,
+    c.chunk_index,
+    c.page_number,
+    c.start_seconds,
+    c.end_seconds,
+    c.section,
+    c.content,
+    b.score AS rank
+  FROM best b
+  JOIN candidates c ON c.id = b.id
+  JOIN public.documents d ON d.id = c.document_id
+  ORDER BY b.score DESC
+  LIMIT match_count;
+$$;
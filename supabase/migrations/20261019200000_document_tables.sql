@@ -0,0 +1,28 @@
+-- Tables found in spreadsheets and PDFs, kept as structured rows next to the
+-- text chunks so chat can compute sums, averages and filters over them exactly
+-- and cite the cells it read
+CREATE TABLE public.document_tables (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  table_index INTEGER NOT NULL,
+  -- Sheet name, or "Page 3 table 1" for PDFs
+  name TEXT NOT NULL,
+  page_number INTEGER,
+  -- [{ "index": 0, "name": "Region" }, ...] with 0-based column indexes
+  columns JSONB NOT NULL,
+  -- [{ "rowNumber": 2, "cells": [{ "column": 0, "value": "North" }, ...] }, ...]
+  rows JSONB NOT NULL,
+  row_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (document_id, table_index)
+);
+
+ALTER TABLE public.document_tables ENABLE ROW LEVEL SECURITY;
+
+-- Tables are written by the ingestion worker with the service role
+CREATE POLICY "Users can view their own document tables"
+ON public.document_tables FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_document_tables_document_id ON public.document_tables(document_id);
@@ -0,0 +1,5 @@
+-- Documents added from a web page keep the page's address and when it was
+-- fetched, so citations can link back to the original. NULL for uploads.
+ALTER TABLE public.documents
+  ADD COLUMN source_url TEXT,
+  ADD COLUMN fetched_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,4 @@
+-- Documents are deleted through the delete-document function, which also
+-- removes the stored file at file_path. Deleting the row directly from the
+-- client left that file behind, so the client no longer may.
+DROP POLICY IF EXISTS "Users can delete their own documents" ON public.documents;
@@ -0,0 +1,4 @@
+-- Tables longer than the stored row limit keep their real row count in
+-- row_count, with a flag so calculations over them are reported as partial
+ALTER TABLE public.document_tables
+  ADD COLUMN truncated BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- document_tables.user_id was created without its foreign key; tables go with
+-- the user like every other per-user table
+ALTER TABLE public.document_tables
+  ADD CONSTRAINT document_tables_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
@@ -0,0 +1,41 @@
+-- Swaps a document's chunks for a new set in one transaction. Re-indexing
+-- embeds first and then calls this, so a failure part-way leaves the previous
+-- chunks searchable. Called by the ingestion worker with the service role.
+CREATE OR REPLACE FUNCTION public.replace_document_chunks(target_document_id UUID, chunks JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  inserted INTEGER;
+BEGIN
+  SELECT user_id INTO owner_id FROM public.documents WHERE id = target_document_id;
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', target_document_id;
+  END IF;
+
+  DELETE FROM public.document_chunks WHERE document_id = target_document_id;
+
+  INSERT INTO public.document_chunks (
+    document_id, user_id, chunk_index, content, page_number, section, start_seconds, end_seconds, embedding
+  )
+  SELECT
+    target_document_id, owner_id, c.chunk_index, c.content, c.page_number, c.section,
+    c.start_seconds, c.end_seconds, c.embedding::extensions.vector
+  FROM jsonb_to_recordset(chunks) AS c(
+    chunk_index INTEGER,
+    content TEXT,
+    page_number INTEGER,
+    section TEXT,
+    start_seconds DOUBLE PRECISION,
+    end_seconds DOUBLE PRECISION,
+    embedding TEXT
+  );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_document_chunks(UUID, JSONB) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,53 @@
+-- Failed attempts wait before they are retried, so a job that just failed is
+-- not claimed again straight away
+ALTER TABLE public.ingestion_jobs ADD COLUMN next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+CREATE INDEX idx_ingestion_jobs_due ON public.ingestion_jobs(status, next_attempt_at);
+
+-- Claim the next due job (or a specific one). Running jobs stuck for 15
+-- minutes are reclaimed while they have attempts left; those on their last
+-- attempt are marked failed so they can be retried from the Documents page.
+CREATE OR REPLACE FUNCTION public.claim_ingestion_job(target_job_id UUID DEFAULT NULL)
+RETURNS SETOF public.ingestion_jobs
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE public.ingestion_jobs
+  SET status = 'failed', error = 'Processing stopped before it finished', finished_at = now()
+  WHERE status = 'running'
+    AND attempts >= max_attempts
+    AND started_at < now() - interval '15 minutes';
+
+  UPDATE public.ingestion_jobs
+  SET status = 'running', attempts = attempts + 1, started_at = now(), finished_at = NULL, error = NULL
+  WHERE id = (
+    SELECT id FROM public.ingestion_jobs
+    WHERE (target_job_id IS NULL OR id = target_job_id)
+      AND attempts < max_attempts
+      AND (
+        (status = 'queued' AND next_attempt_at <= now())
+        OR (status = 'running' AND started_at < now() - interval '15 minutes')
+      )
+    ORDER BY next_attempt_at, created_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_ingestion_job(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Users can also retry a job whose worker stopped responding
+CREATE OR REPLACE FUNCTION public.retry_ingestion_job(job_id UUID)
+RETURNS public.ingestion_jobs
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.ingestion_jobs
+  SET status = 'queued', attempts = 0, error = NULL, started_at = NULL, finished_at = NULL, next_attempt_at = now()
+  WHERE id = job_id
+    AND user_id = auth.uid()
+    AND (status = 'failed' OR (status = 'running' AND started_at < now() - interval '15 minutes'))
+  RETURNING *;
+$$;
@@ -0,0 +1,42 @@
+-- Swaps a document's stored tables for a new set in one transaction, so chat
+-- never sees the document without tables and a failed insert keeps the old
+-- ones. Called by the ingestion worker with the service role.
+CREATE OR REPLACE FUNCTION public.replace_document_tables(target_document_id UUID, tables JSONB)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  owner_id UUID;
+  inserted INTEGER;
+BEGIN
+  SELECT user_id INTO owner_id FROM public.documents WHERE id = target_document_id;
+  IF owner_id IS NULL THEN
+    RAISE EXCEPTION 'Document % not found', target_document_id;
+  END IF;
+
+  DELETE FROM public.document_tables WHERE document_id = target_document_id;
+
+  INSERT INTO public.document_tables (
+    document_id, user_id, table_index, name, page_number, columns, rows, row_count, truncated
+  )
+  SELECT
+    target_document_id, owner_id, t.table_index, t.name, t.page_number, t.columns, t.rows,
+    t.row_count, t.truncated
+  FROM jsonb_to_recordset(tables) AS t(
+    table_index INTEGER,
+    name TEXT,
+    page_number INTEGER,
+    columns JSONB,
+    rows JSONB,
+    row_count INTEGER,
+    truncated BOOLEAN
+  );
+
+  GET DIAGNOSTICS inserted = ROW_COUNT;
+  RETURN inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_document_tables(UUID, JSONB) FROM PUBLIC, anon, authenticated;
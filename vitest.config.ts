@@ -11,6 +11,10 @@ export default defineConfig({
     include: ["src/**/*.{test,spec}.{ts,tsx}"],
   },
   resolve: {
-    alias: { "@": path.resolve(__dirname, "./src") },
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+      // Runtime-agnostic edge-function modules, unit-tested from src/test
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
+    },
   },
 });